@@ -1,15 +1,65 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Scanner } from './components/Scanner';
 import { FeedbackOverlay } from './components/FeedbackOverlay';
-import { playSuccessSound, playErrorSound, speakMessage } from './services/audioService';
-import { ScannedRecord, FeedbackState, RecordType } from './types';
-import { Download, Trash2, List, Camera, Power, Copy, LogOut, Check, FileText, Settings } from 'lucide-react';
+import { StorageErrorBanner } from './components/StorageErrorBanner';
+import { UpdateBanner } from './components/UpdateBanner';
+import { ExportModal } from './components/ExportModal';
+import { SyncStatusIcon } from './components/SyncStatusIcon';
+import { ReconciliationView } from './components/ReconciliationView';
+import { Gs1Details } from './components/Gs1Details';
+import { CodeEntryModal } from './components/CodeEntryModal';
+import { SettingsModal } from './components/SettingsModal';
+import { RouteHistory } from './components/RouteHistory';
+import { VirtualList } from './components/VirtualList';
+import { Dashboard } from './components/Dashboard';
+import { playOutcomeFeedback } from './services/audioService';
+import { outcomeForRejection } from './services/feedbackProfileService';
+import { validateCode, checkProfileRules, REJECTION_MESSAGES } from './services/validationService';
+import { VALIDATION_PROFILES, getProfile, loadLastProfileId, saveLastProfileId } from './services/profileService';
+import {
+  buildDuplicateIndex, isDuplicate, loadDuplicateSettings, saveDuplicateSettings, DUPLICATE_SCOPE_LABELS
+} from './services/duplicateService';
+import {
+  createRoute, closeStaleRoutes, groupRecordsByRoute, formatRouteStart, formatRouteEnd, summarizeRoutes, countCases,
+  RouteSummary
+} from './services/routeService';
+import {
+  importLegacyLocalStorage, getAllRecords, getAllRoutes, getRecordsByRoute, queryRecords, useRecordQuery, appendRecord,
+  putRecords, deleteRecords, clearRecords, putRoute, putRoutes, deleteRoutes, describeStorageError
+} from './services/storageService';
+import { formatGs1Hri } from './services/gs1Service';
+import { buildExportRows, downloadExport, downloadTextFile, toText, ExportOptions } from './services/exportService';
+import {
+  parseManifest, classifyAgainstManifest, reconcile, reconciliationToCsv, MANIFEST_MESSAGES
+} from './services/manifestService';
+import {
+  startSync, enqueueRecord, enqueueRoute, retryFailed, loadSyncSettings, updateSyncSettings, discardQueuedRecords
+} from './services/syncService';
+import { getSettings, subscribeSettings, updateSettings } from './services/settingsService';
+import { createPresenceTracker, LEAVE_VIEW_GAP_MS } from './services/presenceService';
+import {
+  filterRecords, hasRecordFilter, parseDateInput, RecordFilter, RecordKind, RECORD_KIND_LABELS
+} from './services/recordFilterService';
+import { buildDashboard, dashboardToCsv, DashboardGrouping } from './services/dashboardService';
+import { deleteTelemetry, loadTelemetry } from './services/telemetryService';
+import { applyUpdate, useUpdateAvailable } from './services/pwaService';
+import { formatDate, formatTime, getLocaleTag, t, useLocale } from './services/i18nService';
+import { LOCALES } from './locales';
+import {
+  ScannedRecord, FeedbackState, FeedbackType, RecordType, Route, DuplicateScope, DuplicateSettings, ScanOutcome,
+  Locale, RejectionReason
+} from './types';
+import { Download, Trash2, List, Camera, Power, Copy, LogOut, Check, FileText, Settings, CloudUpload, RefreshCw, ClipboardList, Plus, Minus, Keyboard, Pencil, Undo2, History, Search, SlidersHorizontal, BarChart3 } from 'lucide-react';
 
-const LOG_STORAGE_KEY = 'itf_scanner_logs';
+// Flattened list view: route start/end markers between the records
+type ListRow =
+  | { kind: 'marker'; key: string; text: string }
+  | { kind: 'record'; key: string; record: ScannedRecord; route: Route | null };
 
 export default function App() {
   const [logs, setLogs] = useState<ScannedRecord[]>([]);
-  const [view, setView] = useState<'scan' | 'list'>('scan');
+  const [view, setView] = useState<'scan' | 'list' | 'history' | 'dashboard'>('scan');
+  const [dashboardGrouping, setDashboardGrouping] = useState<DashboardGrouping>('ROUTE');
   const [feedback, setFeedback] = useState<FeedbackState>(null);
   const [isPaused, setIsPaused] = useState(false);
 
@@ -18,40 +68,131 @@ export default function App() {
   const [showRouteModal, setShowRouteModal] = useState(false);
   const [routeName, setRouteName] = useState('');
 
+  // Routes
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [activeRouteId, setActiveRouteId] = useState<string | null>(null);
+  const [routeFilter, setRouteFilter] = useState<string>('ALL'); // 'ALL' or a route id
+  const [duplicateSettings, setDuplicateSettings] = useState<DuplicateSettings>(loadDuplicateSettings);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exportRouteIds, setExportRouteIds] = useState<string[] | null>(null); // Preselected in the export modal
+  const [exportFromList, setExportFromList] = useState(false); // Export the list's search / filter result
+
+  // List search and filters (the route filter above doubles as the route part)
+  const [searchQuery, setSearchQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [recordKind, setRecordKind] = useState<RecordKind>('ALL');
+  const [showFilters, setShowFilters] = useState(false);
+  const [showRejected, setShowRejected] = useState(false);
+  const [syncEndpoint, setSyncEndpoint] = useState(() => loadSyncSettings().endpoint);
+  const [showSettings, setShowSettings] = useState(false);
+  const locale = useLocale();
+  const [settings, setSettings] = useState(getSettings); // Scanner props follow the settings screen
+  const updateAvailable = useUpdateAvailable();
+  const [updateDismissed, setUpdateDismissed] = useState(false);
+
+  // Manifest picked in the route modal, and the reconciliation screen
+  const [manifestText, setManifestText] = useState('');
+  const [manifestFileName, setManifestFileName] = useState('');
+  const [profileId, setProfileId] = useState<string>(loadLastProfileId);
+  const [countMode, setCountMode] = useState(false);
+
+  // Record editing: long-pressed record, code being edited, manual entry, last deletion for undo
+  const [actionRecord, setActionRecord] = useState<ScannedRecord | null>(null);
+  const [editingRecord, setEditingRecord] = useState<ScannedRecord | null>(null);
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  const [deletedRecord, setDeletedRecord] = useState<ScannedRecord | null>(null);
+  const undoTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [showReconciliation, setShowReconciliation] = useState(false);
+
   const lastScannedCode = useRef<string | null>(null);
   const lastScanTime = useRef<number>(0);
+  // Whether the code just read is a label still held in view (fed by every camera read)
+  const presenceRef = useRef(createPresenceTracker(() => getSettings().feedbackLockMs + LEAVE_VIEW_GAP_MS));
 
-  // Critical: Instant lookup for duplicates to avoid React State delays
-  const scannedCodesRef = useRef<Set<string>>(new Set());
+  // Critical: Instant lookup for duplicates to avoid React State delays (code -> last scan time)
+  const scannedCodesRef = useRef<Map<string, number>>(new Map());
+  // Active route's manifest and the codes already accepted in that route
+  const manifestRef = useRef<Set<string> | null>(null);
+  const routeCodesRef = useRef<Set<string>>(new Set());
+  // Latest logs for handleScan, which must not re-create on every scan
+  const logsRef = useRef<ScannedRecord[]>([]);
+  logsRef.current = logs;
   // Critical: Synchronous lock to prevent re-entry during feedback
   const isProcessing = useRef<boolean>(false);
 
-  // Load logs on mount
+  // Surface failed writes (e.g. quota exceeded) to the operator, not just the console
+  const handleStorageError = useCallback((err: unknown) => {
+    console.error("Storage error", err);
+    setStorageError(describeStorageError(err));
+  }, []);
+
+  // Load logs and routes from IndexedDB on mount
   useEffect(() => {
-    const saved = localStorage.getItem(LOG_STORAGE_KEY);
-    if (saved) {
+    let cancelled = false;
+
+    const load = async () => {
       try {
-        const parsedLogs: ScannedRecord[] = JSON.parse(saved);
-        setLogs(parsedLogs);
+        // One-time import of the old localStorage log (legacy INFO markers become Routes)
+        await importLegacyLocalStorage();
+        const [storedLogs, storedRoutes] = await Promise.all([getAllRecords(), getAllRoutes()]);
+        if (cancelled) return;
+
+        const closedRoutes = closeStaleRoutes(storedRoutes);
+        const staleRoutes = closedRoutes.filter((r, i) => r !== storedRoutes[i]);
+        if (staleRoutes.length > 0) {
+          putRoutes(staleRoutes)
+            .then(() => Promise.all(staleRoutes.map(enqueueRoute)))
+            .catch(handleStorageError);
+        }
+
+        // Keep anything created while loading
+        setLogs(prev => [...prev, ...storedLogs]);
+        setRoutes(prev => [...closedRoutes, ...prev.filter(r => !closedRoutes.some(c => c.id === r.id))]);
         // Sync Ref with loaded logs for instant duplicate checks
-        parsedLogs.forEach(log => {
-          if (log.type === 'SCAN') {
-            scannedCodesRef.current.add(log.code);
-          }
-        });
+        scannedCodesRef.current = buildDuplicateIndex(storedLogs, duplicateSettings, null);
       } catch (e) {
-        console.error("Failed to parse logs", e);
+        handleStorageError(e);
       }
-    }
+    };
+
+    load();
+    return () => { cancelled = true; };
   }, []);
 
-  // Save logs on change
+  // Background upload queue: patch sync badges as batches are acknowledged
+  useEffect(() => startSync(updated => {
+    const statusById = new Map(updated.map(r => [r.id, r.syncStatus]));
+    setLogs(prev => prev.map(l => (statusById.has(l.id) ? { ...l, syncStatus: statusById.get(l.id) } : l)));
+  }), []);
+
+  // Save duplicate settings on change
   useEffect(() => {
-    localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(logs));
-  }, [logs]);
+    saveDuplicateSettings(duplicateSettings);
+  }, [duplicateSettings]);
+
+  useEffect(() => subscribeSettings(setSettings), []);
+
+  useEffect(() => {
+    document.documentElement.lang = getLocaleTag();
+    document.title = `${t('app.company')} ${t('app.name')}`;
+  }, [locale]);
 
   // --- Handlers ---
 
+  // Profile picked in the route modal; manifest codes must satisfy its rules
+  const modalProfile = getProfile(profileId);
+  const manifestCodes = manifestText
+    ? parseManifest(manifestText, token => checkProfileRules(token, modalProfile, getSettings().enforceCheckDigit) === null)
+    : [];
+
+  // Profile of the route being scanned (drives both the decoder hints and the validator)
+  const activeRoute = routes.find(r => r.id === activeRouteId);
+  const activeProfile = getProfile(activeRoute?.profileId);
+  const isCountMode = !!activeRoute?.countMode;
+
   const handleStartClick = () => {
     // Initialize Audio Context on user gesture
     const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
@@ -63,47 +204,72 @@ export default function App() {
 
   const handleViewRecordsClick = () => {
     // Enter view-only mode
-    setIsStarted(true); // Temporarily act as started to show UI
-    setView('list');    // Directly go to list
+    setIsStarted(true);  // Temporarily act as started to show UI
+    setView('history');  // Directly go to the route history
     setRouteName('');   // No active route
+    setActiveRouteId(null);
   };
 
   const handleRouteConfirm = () => {
     if (!routeName.trim()) {
-      alert("라우트명을 입력해주세요.");
+      alert(t('route.nameRequired'));
       return;
     }
 
-    // Add Route Start Header with Down Arrow
-    const headerRecord: ScannedRecord = {
-      id: crypto.randomUUID(),
-      type: 'INFO',
-      code: `(${routeName}) 시작 ▼`,
-      timestamp: Date.now()
+    const route: Route = {
+      ...createRoute(routeName),
+      profileId: modalProfile.id,
+      manifest: manifestCodes.length > 0 ? manifestCodes : undefined,
+      countMode: countMode || undefined
     };
+    saveLastProfileId(modalProfile.id);
+    setRoutes(prev => [...prev, route]);
+    putRoute(route).then(() => enqueueRoute(route)).catch(handleStorageError);
+    setActiveRouteId(route.id);
+    setRouteFilter('ALL');
+
+    // Rebuild the duplicate checker for the new route and the chosen scope
+    scannedCodesRef.current = buildDuplicateIndex(logs, duplicateSettings, route.id);
+    lastScannedCode.current = null;
+    presenceRef.current.reset();
+    manifestRef.current = route.manifest ? new Set(route.manifest) : null;
+    routeCodesRef.current = new Set();
+    setManifestText('');
+    setManifestFileName('');
+    setCountMode(false);
 
-    setLogs(prev => [headerRecord, ...prev]);
     setIsStarted(true);
     setView('scan'); // Ensure we start at scan view
     setShowRouteModal(false);
   };
 
+  const handleManifestFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const text = await file.text();
+    if (parseManifest(text, token => checkProfileRules(token, modalProfile, getSettings().enforceCheckDigit) === null).length === 0) {
+      alert(t('route.manifestEmpty'));
+      return;
+    }
+    setManifestText(text);
+    setManifestFileName(file.name);
+  };
+
   const handleEndScan = () => {
-    if (confirm("스캔을 종료하시겠습니까? 메인 화면으로 돌아갑니다.")) {
-      // Add Route End Footer with Up Arrow only if we had an active route
-      if (routeName) {
-        const footerRecord: ScannedRecord = {
-          id: crypto.randomUUID(),
-          type: 'INFO',
-          code: `(${routeName}) 종료 ▲`,
-          timestamp: Date.now()
-        };
-        setLogs(prev => [footerRecord, ...prev]);
+    if (confirm(t('route.endConfirm'))) {
+      // Close the active route (if any)
+      if (activeRoute) {
+        const endedRoute: Route = { ...activeRoute, endedAt: Date.now(), status: 'COMPLETED' };
+        setRoutes(prev => prev.map(r => (r.id === endedRoute.id ? endedRoute : r)));
+        putRoute(endedRoute).then(() => enqueueRoute(endedRoute)).catch(handleStorageError);
       }
 
       // Reset State
       setIsStarted(false);
       setRouteName('');
+      setActiveRouteId(null);
       setView('scan');
       // Note: We do NOT clear scannedCodesRef here because users might want to keep the history in the list.
     }
@@ -114,137 +280,491 @@ export default function App() {
     console.log(err);
   }, []);
 
-  const handleScan = useCallback((rawCode: string, format: string) => {
-    // 1. Synchronous Gate Checks
-    if (isProcessing.current || isPaused) return;
+  // Persists an edited record and re-uploads it (the server upserts by id)
+  const updateRecord = useCallback((record: ScannedRecord) => {
+    const updated: ScannedRecord = { ...record, syncStatus: 'PENDING' };
+    setLogs(prev => prev.map(l => (l.id === updated.id ? updated : l)));
+    putRecords([updated]).then(() => enqueueRecord(updated)).catch(handleStorageError);
+  }, [handleStorageError]);
 
-    // Trim whitespace to prevent ghost errors
-    const code = rawCode.trim();
-
-    // Throttle exact same reads (hardware bounce)
-    const now = Date.now();
-    if (code === lastScannedCode.current && now - lastScanTime.current < 1000) {
-      return;
-    }
-
-    lastScannedCode.current = code;
-    lastScanTime.current = now;
+  const handleQuantityChange = (record: ScannedRecord, delta: number) => {
+    const quantity = Math.max(1, (record.quantity || 1) + delta);
+    if (quantity !== (record.quantity || 1)) updateRecord({ ...record, quantity });
+  };
 
+  /**
+   * Validates and records one code, camera or typed. Returns the message of a
+   * refused code (also shown as feedback), null when it was taken.
+   * `stillInView`: a camera read of a label that never left view.
+   */
+  const processCode = useCallback((code: string, format: string, manual: boolean, now: number, stillInView: boolean): string | null => {
     // --- Validation Logic (Executed BEFORE any state update) ---
+    // Symbology -> Format -> Length -> Prefix/Pattern -> Check Digit (per profile) -> Duplicate (Ref for Instant O(1) Check)
+    // In count mode a repeat within the route is a quantity increment, not a duplicate
+    const isRepeat = (c: string) => isCountMode && routeCodesRef.current.has(c);
+    const duplicates = {
+      has: (c: string) => !isRepeat(c) && isDuplicate(scannedCodesRef.current, c, duplicateSettings, now)
+    };
+    const validation = validateCode(code, format || null, activeProfile, duplicates, getSettings().enforceCheckDigit);
 
-    // 2. Check Numeric
-    const isNumeric = /^\d+$/.test(code);
+    // Refused reads are kept (raw code + reason) so supervisors can audit them later
+    // (once per presentation: a label held in view is refused again but not re-recorded)
+    const recordRejection = (reason: RejectionReason) => {
+      if (stillInView) return;
 
-    if (!isNumeric) {
-      triggerFeedback('error', '바코드 형식 오류', true);
-      return;
-    }
+      const rejectedRecord: ScannedRecord = {
+        id: crypto.randomUUID(),
+        type: 'REJECTED',
+        code,
+        format: format || undefined,
+        timestamp: now,
+        routeId: activeRouteId || undefined,
+        syncStatus: 'PENDING',
+        manual: manual || undefined,
+        rejection: reason
+      };
+      setLogs(prev => [rejectedRecord, ...prev]);
+      appendRecord(rejectedRecord).then(() => enqueueRecord(rejectedRecord)).catch(handleStorageError);
+    };
 
-    // 3. Check Length (Must be 14)
-    if (code.length !== 14) {
-      triggerFeedback('error', '자릿수 오류', true);
-      return;
+    if (validation.reason) {
+      const message = t(REJECTION_MESSAGES[validation.reason]);
+      triggerFeedback('error', message, outcomeForRejection(validation.reason), code);
+      recordRejection(validation.reason);
+      return message;
     }
 
-    // 4. Check Duplicate (Using Ref for Instant O(1) Check)
-    if (scannedCodesRef.current.has(code)) {
-      triggerFeedback('error', '중복 스캔', true);
-      return;
-    }
+    // Count mode: a case still in front of the camera is counted once, not once per throttle period
+    if (stillInView && isRepeat(validation.code)) return null;
 
     // --- Success ---
     // Immediately lock processing to prevent subsequent frames from entering
     isProcessing.current = true;
 
+    // For GS1 profiles this is the GTIN / HRI string rather than the raw element string
+    const acceptedCode = validation.code;
+
     // Final Safety Check:
     // Ensure that between validation and here, nothing weird happened (rare race condition)
-    if (code.length !== 14 || scannedCodesRef.current.has(code)) {
+    if (duplicates.has(acceptedCode)) {
       isProcessing.current = false;
-      return;
+      return t(REJECTION_MESSAGES.DUPLICATE);
+    }
+
+    // Count mode: +1 on the route's existing record for this code
+    if (isRepeat(acceptedCode)) {
+      const existing = logsRef.current.find(l => l.type === 'SCAN' && l.routeId === activeRouteId && l.code === acceptedCode);
+      if (existing) {
+        const quantity = (existing.quantity || 1) + 1;
+        triggerFeedback('count', t('scan.count', { quantity }), 'COUNT', acceptedCode);
+        scannedCodesRef.current.set(acceptedCode, now);
+        updateRecord({ ...existing, quantity });
+        return null;
+      }
     }
 
-    triggerFeedback('success', '딩동! OK', false);
+    // 5. Manifest Check (only when the route has an imported manifest)
+    const manifest = manifestRef.current;
+    if (manifest) {
+      const check = classifyAgainstManifest(acceptedCode, manifest, routeCodesRef.current);
+      if (check === 'ALREADY_SCANNED') {
+        const message = t(MANIFEST_MESSAGES.ALREADY_SCANNED);
+        triggerFeedback('error', message, 'DUPLICATE', acceptedCode);
+        recordRejection('DUPLICATE');
+        return message;
+      }
+      if (check === 'UNEXPECTED') {
+        // Still recorded: the carton is physically here, the supervisor sorts it out
+        triggerFeedback('warning', t(MANIFEST_MESSAGES.UNEXPECTED), 'NOT_ON_MANIFEST', acceptedCode);
+      } else {
+        const done = [...routeCodesRef.current].filter(c => manifest.has(c)).length + 1;
+        triggerFeedback('success', `${t(MANIFEST_MESSAGES.EXPECTED)}\n${done}/${manifest.size}`, 'NEW', acceptedCode);
+      }
+    } else {
+      triggerFeedback('success', t('scan.ok'), 'NEW', acceptedCode);
+    }
 
     const newRecord: ScannedRecord = {
       id: crypto.randomUUID(),
       type: 'SCAN',
-      code,
-      format: 'ITF', // Force label as ITF since we validated structure
-      timestamp: now
+      code: acceptedCode,
+      format: format || activeProfile.symbologies[0],
+      timestamp: now,
+      routeId: activeRouteId || undefined,
+      syncStatus: 'PENDING',
+      gs1: validation.gs1,
+      manual: manual || undefined
     };
 
     // Update State and Ref
-    scannedCodesRef.current.add(code);
+    scannedCodesRef.current.set(acceptedCode, now);
+    routeCodesRef.current.add(acceptedCode);
     setLogs(prev => [newRecord, ...prev]);
+    appendRecord(newRecord).then(() => enqueueRecord(newRecord)).catch(handleStorageError);
+    return null;
+  }, [activeRouteId, activeProfile, isCountMode, duplicateSettings, handleStorageError, updateRecord]);
+
+  const handleScan = useCallback((rawCode: string, format: string) => {
+    // Trim whitespace to prevent ghost errors
+    const code = rawCode.trim();
+    const now = Date.now();
+    const stillInView = presenceRef.current.read(code, now);
+
+    // 1. Synchronous Gate Checks
+    if (isProcessing.current || isPaused) return;
+
+    // Throttle exact same reads (hardware bounce)
+    if (code === lastScannedCode.current && now - lastScanTime.current < getSettings().sameCodeThrottleMs) {
+      return;
+    }
 
-  }, [isPaused]);
+    lastScannedCode.current = code;
+    lastScanTime.current = now;
+
+    processCode(code, format, false, now, stillInView);
+  }, [isPaused, processCode]);
 
-  const triggerFeedback = (type: 'success' | 'error', message: string, speak: boolean) => {
+  const triggerFeedback = (type: FeedbackType, message: string, outcome: ScanOutcome, code?: string) => {
     // Lock immediately
     isProcessing.current = true;
     setFeedback({ type, message });
     setIsPaused(true);
 
-    if (type === 'success') {
-      playSuccessSound();
-    } else {
-      playErrorSound();
-      if (speak) speakMessage(message);
-    }
+    // Sound / vibration / speech come from the active feedback profile
+    playOutcomeFeedback(outcome, message, code);
 
     setTimeout(() => {
       setFeedback(null);
       setIsPaused(false);
       // Unlock after feedback is done
       isProcessing.current = false;
-    }, 600);
+    }, getSettings().feedbackLockMs);
   };
 
   // --- Export / Actions ---
 
-  const handleDownload = () => {
-    if (logs.length === 0) return;
+  const recordFilter: RecordFilter = {
+    query: searchQuery,
+    routeId: routeFilter === 'ALL' ? null : routeFilter,
+    from: parseDateInput(fromDate, false),
+    to: parseDateInput(toDate, true),
+    kind: recordKind,
+    showRejected,
+  };
+  // A picked route or date range is read through the storage indexes
+  const storedListRecords = useRecordQuery(recordFilter.routeId, recordFilter.from, recordFilter.to);
+  const visibleLogs = filterRecords(storedListRecords ?? logs, recordFilter);
+  const visibleRoutes = routeFilter === 'ALL' ? routes : routes.filter(r => r.id === routeFilter);
+  const routeGroups = groupRecordsByRoute(visibleLogs, visibleRoutes);
 
-    // Reverse logs to get chronological order (Oldest -> Newest)
-    const chronologicalLogs = [...logs].reverse();
-    const textContent = chronologicalLogs.map(l => l.code).join('\n');
+  // Groups and records are in Chronological Order (Oldest -> Newest)
+  const listRows: ListRow[] = routeGroups.filter(g => g.records.length > 0).flatMap(({ route, records }) => [
+    ...(route ? [{ kind: 'marker' as const, key: `${route.id}:start`, text: formatRouteStart(route) }] : []),
+    ...records.map(record => ({ kind: 'record' as const, key: record.id, record, route })),
+    ...(route?.endedAt ? [{ kind: 'marker' as const, key: `${route.id}:end`, text: formatRouteEnd(route) }] : []),
+  ]);
 
-    // Fix: Add BOM (\uFEFF) for UTF-8 compatibility
-    const blob = new Blob(['\uFEFF' + textContent], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
+  const filterRouteIds = routeFilter === 'ALL' ? null : [routeFilter];
 
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `SCAN_${new Date().toISOString().slice(0, 10)}_${routeName || 'Log'}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const clearRecordFilter = () => {
+    setSearchQuery('');
+    setFromDate('');
+    setToDate('');
+    setRecordKind('ALL');
+    setShowRejected(false);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    let records = visibleLogs;
+    if (!exportFromList) {
+      try {
+        records = await queryRecords(options.routeIds, options.from, options.to);
+      } catch (e) {
+        handleStorageError(e);
+        return;
+      }
+    }
+
+    const rows = buildExportRows(records, routes, options);
+    if (rows.length === 0) {
+      alert(t('list.nothingToExport'));
+      return;
+    }
+
+    const selectedRoute = options.routeIds?.length === 1 ? routes.find(r => r.id === options.routeIds![0]) : undefined;
+    downloadExport(rows, options.format, `SCAN_${new Date().toISOString().slice(0, 10)}_${selectedRoute?.name || 'Log'}`);
+    setShowExportModal(false);
+  };
+
+  // fromList: start from the list's filters and export only what the list shows
+  const openExportModal = (routeIds: string[] | null, fromList: boolean) => {
+    setExportRouteIds(routeIds);
+    setExportFromList(fromList);
+    setShowExportModal(true);
   };
 
   const handleCopy = async () => {
-    if (logs.length === 0) return;
+    if (visibleLogs.length === 0) return;
 
-    // Reverse logs to get chronological order (Oldest -> Newest)
-    const chronologicalLogs = [...logs].reverse();
-    const textContent = chronologicalLogs.map(l => l.code).join('\n');
+    // Chronological (Oldest -> Newest) codes with route start/end lines, limited to what the list shows
+    const textContent = toText(buildExportRows(visibleLogs, routes, {
+      format: 'TXT', routeIds: filterRouteIds, from: recordFilter.from, to: recordFilter.to, includeMarkers: true,
+      includeRejected: showRejected
+    }));
 
     try {
       await navigator.clipboard.writeText(textContent);
-      alert("클립보드에 복사되었습니다.");
+      alert(t('list.copied'));
     } catch (err) {
-      alert("복사에 실패했습니다.");
+      alert(t('list.copyFailed'));
     }
   };
 
+  const selectedRoute = routes.find(r => r.id === routeFilter);
+  const reconciliationRecords = useRecordQuery(showReconciliation ? selectedRoute?.id ?? null : null, null, null);
+
+  // Only computed while the dashboard is open: it walks every record
+  const dashboardMetrics = view === 'dashboard' ? buildDashboard(logs, routes, loadTelemetry(), dashboardGrouping) : [];
+
+  const handleDashboardExport = () => {
+    downloadTextFile(
+      dashboardToCsv(dashboardMetrics, dashboardGrouping),
+      `DASHBOARD_${new Date().toISOString().slice(0, 10)}_${dashboardGrouping}.csv`,
+      'text/csv;charset=utf-8',
+      true
+    );
+  };
+
+  const handleReconciliationExport = async (route: Route) => {
+    let records: ScannedRecord[];
+    try {
+      records = await getRecordsByRoute(route.id);
+    } catch (e) {
+      handleStorageError(e);
+      return;
+    }
+
+    const report = reconcile(route.manifest || [], records);
+    downloadTextFile(
+      reconciliationToCsv(report),
+      `RECON_${new Date(route.startedAt).toISOString().slice(0, 10)}_${route.name}.csv`,
+      'text/csv;charset=utf-8',
+      true
+    );
+  };
+
+  const pendingCount = logs.filter(l => l.syncStatus === 'PENDING').length;
+  const failedCount = logs.filter(l => l.syncStatus === 'FAILED').length;
+
+  const handleSyncSettings = () => {
+    const endpoint = prompt(t('sync.endpointPrompt'), syncEndpoint);
+    if (endpoint === null) return;
+    setSyncEndpoint(endpoint.trim());
+    updateSyncSettings({ ...loadSyncSettings(), endpoint: endpoint.trim() });
+  };
+
+  const handleRetrySync = () => {
+    retryFailed().catch(handleStorageError);
+  };
+
+  // --- Record editing ---
+
+  // Duplicate / manifest lookups must follow removed and corrected codes
+  const rebuildCodeIndexes = (nextLogs: ScannedRecord[]) => {
+    scannedCodesRef.current = buildDuplicateIndex(nextLogs, duplicateSettings, activeRouteId);
+    routeCodesRef.current = new Set(
+      nextLogs.filter(l => l.type === 'SCAN' && !!activeRouteId && l.routeId === activeRouteId).map(l => l.code)
+    );
+    lastScannedCode.current = null;
+    presenceRef.current.reset();
+  };
+
+  const handleDeleteRecord = (record: ScannedRecord) => {
+    // The upload API only upserts, so an uploaded record stays on the server
+    if (record.syncStatus === 'SYNCED' && !confirm(t('list.deleteSyncedConfirm'))) return;
+
+    const nextLogs = logs.filter(l => l.id !== record.id);
+    setLogs(nextLogs);
+    rebuildCodeIndexes(nextLogs);
+    deleteRecords([record.id]).catch(handleStorageError);
+    discardQueuedRecords([record.id]).catch(handleStorageError);
+
+    if (undoTimeoutRef.current) clearTimeout(undoTimeoutRef.current);
+    setDeletedRecord(record);
+    undoTimeoutRef.current = setTimeout(() => setDeletedRecord(null), 5000);
+  };
+
+  const handleUndoDelete = () => {
+    const record = deletedRecord;
+    if (!record) return;
+    if (undoTimeoutRef.current) clearTimeout(undoTimeoutRef.current);
+    setDeletedRecord(null);
+
+    const nextLogs = [...logs, record].sort((a, b) => b.timestamp - a.timestamp);
+    setLogs(nextLogs);
+    rebuildCodeIndexes(nextLogs);
+    putRecords([record])
+      .then(() => (record.syncStatus === 'SYNCED' ? undefined : enqueueRecord(record)))
+      .catch(handleStorageError);
+  };
+
+  // Same rules as a live scan, minus the record itself in the duplicate check
+  const handleEditSubmit = (code: string): string | null => {
+    const record = editingRecord;
+    if (!record) return null;
+
+    const profile = getProfile(routes.find(r => r.id === record.routeId)?.profileId);
+    const others = logs.filter(l => l.id !== record.id);
+    const index = buildDuplicateIndex(others, duplicateSettings, record.routeId || null);
+    const now = Date.now();
+    const duplicates = { has: (c: string) => isDuplicate(index, c, duplicateSettings, now) };
+    const validation = validateCode(code, null, profile, duplicates, getSettings().enforceCheckDigit);
+    if (validation.reason) return t(REJECTION_MESSAGES[validation.reason]);
+
+    // A corrected code no longer comes from the decoder
+    const updated: ScannedRecord = { ...record, code: validation.code, gs1: validation.gs1, manual: true };
+    updateRecord(updated);
+    rebuildCodeIndexes(others.concat(updated));
+    setEditingRecord(null);
+    return null;
+  };
+
+  // Removes a past route with its records (the route being scanned stays)
+  const handleDeleteRoute = ({ route, scanCount }: RouteSummary) => {
+    if (route.id === activeRouteId) return;
+    if (!confirm(t('history.deleteConfirm', { name: route.name, count: scanCount }))) return;
+
+    const nextLogs = logs.filter(l => l.routeId !== route.id);
+    setLogs(nextLogs);
+    setRoutes(prev => prev.filter(r => r.id !== route.id));
+    rebuildCodeIndexes(nextLogs);
+    if (routeFilter === route.id) setRouteFilter('ALL');
+    if (deletedRecord?.routeId === route.id) setDeletedRecord(null);
+
+    // Neither the records nor the route itself may still be uploaded
+    getRecordsByRoute(route.id)
+      .then(records => {
+        const recordIds = records.map(r => r.id);
+        return Promise.all([deleteRecords(recordIds), discardQueuedRecords([...recordIds, route.id])]);
+      })
+      .catch(handleStorageError);
+    deleteRoutes([route.id]).catch(handleStorageError);
+    deleteTelemetry([route.id]);
+  };
+
+  // Same rules as a live scan, without the camera's pause and same-code throttle;
+  // a refused code keeps the modal open with the reason
+  const handleManualSubmit = (code: string): string | null => {
+    const error = processCode(code.trim(), '', true, Date.now(), false);
+    if (!error) setShowManualEntry(false);
+    return error;
+  };
+
+  // Long-press (touch) or right-click opens the record's actions
+  const longPressHandlers = (record: ScannedRecord) => {
+    const cancel = () => {
+      if (longPressTimeoutRef.current) clearTimeout(longPressTimeoutRef.current);
+      longPressTimeoutRef.current = null;
+    };
+    return {
+      onPointerDown: () => {
+        cancel();
+        longPressTimeoutRef.current = setTimeout(() => setActionRecord(record), 500);
+      },
+      onPointerUp: cancel,
+      onPointerLeave: cancel,
+      onPointerCancel: cancel, // Fired when the touch turns into a scroll
+      onContextMenu: (e: React.MouseEvent) => {
+        e.preventDefault();
+        cancel();
+        setActionRecord(record);
+      },
+    };
+  };
+
   const clearLogs = () => {
-    if (confirm('기록을 모두 삭제하시겠습니까?')) {
+    if (confirm(t('list.clearConfirm'))) {
+      const removedRouteIds = routes.filter(r => r.id !== activeRouteId).map(r => r.id);
       setLogs([]);
-      scannedCodesRef.current.clear(); // Important: Clear the duplicate checker
+      // Keep only the route currently being scanned
+      setRoutes(prev => prev.filter(r => r.id === activeRouteId));
+      clearRecords().catch(handleStorageError);
+      deleteRoutes(removedRouteIds).catch(handleStorageError);
+      // Nothing cleared here may still be uploaded
+      discardQueuedRecords([...logs.map(l => l.id), ...removedRouteIds]).catch(handleStorageError);
+      deleteTelemetry([null, ...removedRouteIds]);
+      setRouteFilter('ALL');
+      scannedCodesRef.current = new Map(); // Important: Clear the duplicate checker
+      routeCodesRef.current = new Set();
       lastScannedCode.current = null;
+      presenceRef.current.reset();
+      setDeletedRecord(null);
     }
   };
 
+  // One row of the virtualized list: a route marker or a record card
+  const renderListRow = (row: ListRow) => {
+    if (row.kind === 'marker') return <RouteMarker text={row.text} />;
+    const { record: log, route } = row;
+    if (log.type === 'INFO') return <RouteMarker text={log.code} />;
+    // Audit entries: read-only, no long-press menu
+    if (log.type === 'REJECTED') {
+      return (
+        <div className="pb-3">
+          <div className="bg-red-950/30 px-4 py-3 rounded-lg border border-red-900/60 flex justify-between items-center">
+            <div className="min-w-0">
+              <p className="font-mono text-red-200 break-all line-through decoration-red-500/60">{log.code || '-'}</p>
+              <p className="text-xs text-slate-400 mt-1">
+                {formatTime(log.timestamp)}
+                <span className="ml-2 text-red-300">{log.rejection ? t(REJECTION_MESSAGES[log.rejection]) : t('list.rejected')}</span>
+                {log.manual && <span className="ml-2 text-amber-300">{t('list.manual')}</span>}
+              </p>
+            </div>
+            <SyncStatusIcon status={log.syncStatus} />
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div className="pb-3">
+        <div
+          {...longPressHandlers(log)}
+          className="bg-slate-800 p-4 rounded-lg border border-slate-700 shadow-sm flex justify-between items-center select-none"
+        >
+          <div className="min-w-0">
+            <p className={`font-mono text-white ${log.gs1 && log.code.length > 14 ? 'text-base break-all' : 'text-2xl tracking-widest'}`}>{log.code}</p>
+            <p className="text-xs text-slate-400 mt-1">
+              {formatTime(log.timestamp)}
+              {log.manual && <span className="ml-2 text-amber-300">{t('list.manual')}</span>}
+            </p>
+            {log.gs1 && <Gs1Details elements={log.gs1} />}
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            {(route?.countMode || (log.quantity || 1) > 1) && (
+              <div className="flex items-center bg-slate-900 rounded-lg border border-slate-700">
+                <button
+                  onClick={() => handleQuantityChange(log, -1)}
+                  disabled={(log.quantity || 1) <= 1}
+                  className="w-8 h-8 flex items-center justify-center text-slate-300 disabled:text-slate-600"
+                >
+                  <Minus size={14} />
+                </button>
+                <span className="min-w-[2rem] text-center font-mono text-sky-300">{log.quantity || 1}</span>
+                <button
+                  onClick={() => handleQuantityChange(log, 1)}
+                  className="w-8 h-8 flex items-center justify-center text-slate-300"
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+            )}
+            <SyncStatusIcon status={log.syncStatus} />
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const lastScan = logs.find(l => l.type === 'SCAN');
 
   // --- Render ---
@@ -252,9 +772,23 @@ export default function App() {
   if (!isStarted) {
     return (
       <div className="h-[100dvh] w-full flex flex-col items-center justify-center bg-slate-900 text-white p-6 relative">
+        <StorageErrorBanner message={storageError} onDismiss={() => setStorageError(null)} />
+        {/* A new version is only offered between routes: reloading mid-route would drop the scan session */}
+        <UpdateBanner visible={updateAvailable && !updateDismissed && !activeRouteId} onReload={applyUpdate} onDismiss={() => setUpdateDismissed(true)} />
+        {/* Language is picked before starting: the settings screen is only reachable inside a route */}
+        <select
+          value={locale}
+          onChange={(e) => updateSettings({ locale: e.target.value as Locale })}
+          aria-label={t('app.language')}
+          className="absolute top-4 right-4 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-500"
+        >
+          {(Object.keys(LOCALES) as Locale[]).map(l => (
+            <option key={l} value={l}>{LOCALES[l].label}</option>
+          ))}
+        </select>
         <div className="text-center space-y-4 mb-10">
           <h1 className="text-xl md:text-2xl font-bold text-emerald-400 whitespace-pre-line leading-relaxed break-keep">
-            (주)피엘지 - 2025<br />국토부 디지털물류 실증 웹앱
+            {t('app.company')}<br />{t('app.name')}
           </h1>
         </div>
 
@@ -264,7 +798,7 @@ export default function App() {
             className="group relative flex flex-col items-center justify-center w-40 h-40 bg-slate-800 rounded-full border-4 border-emerald-500/30 hover:border-emerald-500 hover:bg-slate-700 transition-all active:scale-95 shadow-[0_0_30px_rgba(16,185,129,0.2)]"
           >
             <Power size={48} className="text-emerald-400 group-hover:text-emerald-300 mb-2" />
-            <span className="text-sm font-semibold text-emerald-100">시작하기</span>
+            <span className="text-sm font-semibold text-emerald-100">{t('start.begin')}</span>
           </button>
 
           <button
@@ -272,34 +806,84 @@ export default function App() {
             className="flex items-center justify-center gap-2 text-slate-400 hover:text-white mt-2 py-2 px-4 rounded-lg hover:bg-slate-800 transition-colors w-full"
           >
             <FileText size={16} />
-            <span className="text-sm">기존 기록 보기</span>
+            <span className="text-sm">{t('start.viewRecords')}</span>
           </button>
         </div>
 
         {showRouteModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm px-4">
-            <div className="bg-slate-800 rounded-xl w-full max-w-sm p-6 border border-slate-700 shadow-2xl">
-              <h3 className="text-lg font-bold text-white mb-4">라우트명 입력</h3>
+            <div className="bg-slate-800 rounded-xl w-full max-w-sm max-h-[90dvh] overflow-y-auto p-6 border border-slate-700 shadow-2xl">
+              <h3 className="text-lg font-bold text-white mb-4">{t('route.modalTitle')}</h3>
               <input
                 type="text"
                 value={routeName}
                 onChange={(e) => setRouteName(e.target.value)}
-                placeholder="예: 서울-강남-01"
-                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-emerald-500 transition-colors mb-6"
+                placeholder={t('route.namePlaceholder')}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-emerald-500 transition-colors mb-4"
                 autoFocus
               />
+              <label className="block text-xs text-slate-400 mb-1">{t('route.profile')}</label>
+              <select
+                value={profileId}
+                onChange={(e) => setProfileId(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500 mb-4"
+              >
+                {VALIDATION_PROFILES.map(p => (
+                  <option key={p.id} value={p.id}>{t(p.name)}</option>
+                ))}
+              </select>
+              <label className="block text-xs text-slate-400 mb-1">{t('route.manifest')}</label>
+              <label className="flex items-center gap-2 w-full bg-slate-900 border border-dashed border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-300 mb-4 cursor-pointer">
+                <ClipboardList size={16} className="shrink-0 text-emerald-400" />
+                <span className="truncate">
+                  {manifestFileName
+                    ? t('route.manifestFile', { name: manifestFileName, count: manifestCodes.length })
+                    : t('route.manifestPick')}
+                </span>
+                <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleManifestFile} className="hidden" />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300 mb-4">
+                <input
+                  type="checkbox"
+                  checked={countMode}
+                  onChange={(e) => setCountMode(e.target.checked)}
+                  className="accent-emerald-500"
+                />
+                {t('route.countMode')}
+              </label>
+              <label className="block text-xs text-slate-400 mb-1">{t('route.duplicateScope')}</label>
+              <div className="flex gap-2 mb-6">
+                <select
+                  value={duplicateSettings.scope}
+                  onChange={(e) => setDuplicateSettings(prev => ({ ...prev, scope: e.target.value as DuplicateScope }))}
+                  className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+                >
+                  {(Object.keys(DUPLICATE_SCOPE_LABELS) as DuplicateScope[]).map(scope => (
+                    <option key={scope} value={scope}>{t(DUPLICATE_SCOPE_LABELS[scope])}</option>
+                  ))}
+                </select>
+                {duplicateSettings.scope === 'WINDOW' && (
+                  <input
+                    type="number"
+                    min={1}
+                    value={duplicateSettings.windowMinutes}
+                    onChange={(e) => setDuplicateSettings(prev => ({ ...prev, windowMinutes: Math.max(1, Number(e.target.value) || 1) }))}
+                    className="w-20 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+                  />
+                )}
+              </div>
               <div className="flex gap-3">
                 <button
                   onClick={() => setShowRouteModal(false)}
                   className="flex-1 py-3 rounded-lg bg-slate-700 text-slate-300 font-medium"
                 >
-                  취소
+                  {t('common.cancel')}
                 </button>
                 <button
                   onClick={handleRouteConfirm}
                   className="flex-1 py-3 rounded-lg bg-emerald-600 text-white font-bold hover:bg-emerald-500"
                 >
-                  확인
+                  {t('common.confirm')}
                 </button>
               </div>
             </div>
@@ -311,69 +895,219 @@ export default function App() {
 
   return (
     <div className="h-[100dvh] w-full flex flex-col bg-slate-900 text-slate-100 overflow-hidden font-sans">
+      <StorageErrorBanner message={storageError} onDismiss={() => setStorageError(null)} />
+      <UpdateBanner visible={updateAvailable && !updateDismissed && !activeRouteId} onReload={applyUpdate} onDismiss={() => setUpdateDismissed(true)} />
       {/* Header */}
       <header className="min-h-[3.5rem] bg-slate-800 border-b border-slate-700 flex items-center justify-between px-3 py-1 z-10 shadow-md shrink-0">
         <h1 className="font-bold text-xs text-emerald-400 flex-1 leading-tight mr-2 break-keep whitespace-normal">
-          (주)피엘지 - 2025 국토부 디지털물류 실증 웹앱
+          {t('app.company')} {t('app.name')}
         </h1>
         <div className="flex items-center gap-2 shrink-0">
           <div className="text-xs text-slate-400 bg-slate-700 px-2 py-1 rounded">
-            {logs.filter(l => l.type === 'SCAN').length} 건
+            {t('header.count', { count: countCases(logs) })}
           </div>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="text-slate-300 hover:text-white p-1.5 rounded-md hover:bg-slate-700 transition-colors"
+          >
+            <Settings size={16} />
+          </button>
           <button
             onClick={handleEndScan}
             className="bg-red-900/80 hover:bg-red-800 text-red-100 text-xs px-3 py-1.5 rounded-md flex items-center gap-1 transition-colors"
           >
             <LogOut size={12} />
-            종료
+            {t('header.end')}
           </button>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 relative overflow-hidden">
-        {view === 'scan' ? (
+        {view === 'dashboard' ? (
+          <div className="h-full overflow-y-auto p-4">
+            <h2 className="flex items-center gap-2 text-sm font-bold text-slate-300 mb-3">
+              <BarChart3 size={16} /> {t('dashboard.title')}
+            </h2>
+            <Dashboard
+              metrics={dashboardMetrics}
+              grouping={dashboardGrouping}
+              onGroupingChange={setDashboardGrouping}
+              onExport={handleDashboardExport}
+            />
+          </div>
+        ) : view === 'history' ? (
+          <div className="h-full overflow-y-auto p-4">
+            <h2 className="flex items-center gap-2 text-sm font-bold text-slate-300 mb-3">
+              <History size={16} /> {t('history.title')}
+            </h2>
+            <RouteHistory
+              summaries={summarizeRoutes(routes, logs)}
+              activeRouteId={activeRouteId}
+              onOpen={(routeId) => { setRouteFilter(routeId); setView('list'); }}
+              onExport={(routeId) => openExportModal([routeId], false)}
+              onDelete={handleDeleteRoute}
+            />
+          </div>
+        ) : view === 'scan' ? (
           <>
             <Scanner
               onScan={handleScan}
               onError={handleError}
               isPaused={isPaused}
+              formats={activeProfile.symbologies}
+              assumeGs1={!!activeProfile.gs1Mode}
+              profileLabel={t(activeProfile.name)}
+              backend={settings.decoderBackend}
+              consensus={settings.consensus}
+              routeId={activeRouteId}
+              rotateRoi={settings.rotateRoi}
             />
+            {activeRouteId && (
+              <button
+                onClick={() => setShowManualEntry(true)}
+                className="absolute bottom-6 left-6 z-30 bg-black/50 backdrop-blur-md text-white p-3 rounded-full border border-white/20 active:bg-emerald-600/50 transition-all shadow-lg"
+              >
+                <Keyboard size={24} />
+              </button>
+            )}
             <FeedbackOverlay state={feedback} />
           </>
         ) : (
           <div className="h-full flex flex-col">
-            <div className="flex-1 overflow-y-auto p-4 space-y-3 pb-4">
-              {logs.length === 0 ? (
-                <div className="flex flex-col items-center justify-center h-64 text-slate-500">
-                  <List size={48} className="mb-2 opacity-50" />
-                  <p>스캔된 기록이 없습니다.</p>
-                </div>
-              ) : (
-                // REVERSE the logs array to show Chronological Order (Oldest -> Newest)
-                [...logs].reverse().map((log) => {
-                  if (log.type === 'INFO') {
-                    return (
-                      <div key={log.id} className="flex items-center justify-center py-3">
-                        <div className="h-[1px] bg-emerald-900/50 w-8 mx-2"></div>
-                        <span className="text-xs text-emerald-400 font-bold bg-emerald-900/20 px-3 py-1 rounded-full border border-emerald-800/50">
-                          {log.code}
-                        </span>
-                        <div className="h-[1px] bg-emerald-900/50 w-8 mx-2"></div>
-                      </div>
-                    )
-                  }
-                  return (
-                    <div key={log.id} className="bg-slate-800 p-4 rounded-lg border border-slate-700 shadow-sm flex justify-between items-center animate-in fade-in slide-in-from-bottom-2 duration-300">
-                      <div>
-                        <p className="text-2xl font-mono text-white tracking-widest">{log.code}</p>
-                        <p className="text-xs text-slate-400 mt-1">{new Date(log.timestamp).toLocaleTimeString()}</p>
-                      </div>
-                    </div>
-                  );
-                })
+            <div className="px-4 pt-3 shrink-0 flex gap-2">
+              {routes.length > 0 && (
+                <button
+                  onClick={() => setView('history')}
+                  className="shrink-0 flex items-center px-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-300"
+                >
+                  <History size={16} />
+                </button>
+              )}
+              {logs.length > 0 && (
+                <button
+                  onClick={() => setView('dashboard')}
+                  className="shrink-0 flex items-center px-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-300"
+                >
+                  <BarChart3 size={16} />
+                </button>
+              )}
+              {routes.length > 0 && (
+                <select
+                  value={routeFilter}
+                  onChange={(e) => setRouteFilter(e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+                >
+                  <option value="ALL">{t('list.allRoutes')}</option>
+                  {[...routes].reverse().map(r => (
+                    <option key={r.id} value={r.id}>
+                      {r.name} ({formatDate(r.startedAt)})
+                    </option>
+                  ))}
+                </select>
+              )}
+              {selectedRoute?.manifest && (
+                <button
+                  onClick={() => setShowReconciliation(true)}
+                  className="shrink-0 flex items-center gap-1 px-3 rounded-lg bg-emerald-900/40 border border-emerald-800 text-emerald-300 text-xs"
+                >
+                  <ClipboardList size={14} /> {t('list.reconcile')}
+                </button>
+              )}
+              {failedCount > 0 && (
+                <button
+                  onClick={handleRetrySync}
+                  className="shrink-0 flex items-center gap-1 px-3 rounded-lg bg-red-900/50 border border-red-900 text-red-200 text-xs"
+                >
+                  <RefreshCw size={14} /> {t('list.retry', { count: failedCount })}
+                </button>
               )}
+              <button
+                onClick={handleSyncSettings}
+                className={`shrink-0 ml-auto flex items-center gap-1 px-3 py-2 rounded-lg border text-xs ${syncEndpoint ? 'border-slate-700 text-slate-300' : 'border-slate-700 text-slate-500'}`}
+              >
+                <CloudUpload size={14} />
+                {syncEndpoint ? t('list.pending', { count: pendingCount }) : t('list.syncOff')}
+              </button>
             </div>
+            <div className="px-4 pt-2 shrink-0 flex gap-2">
+              <div className="flex-1 min-w-0 relative">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder={t('filter.searchPlaceholder')}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-8 pr-3 py-2 text-sm text-white font-mono placeholder:font-sans placeholder:text-slate-500 focus:outline-none focus:border-emerald-500"
+                />
+              </div>
+              <button
+                onClick={() => setShowFilters(prev => !prev)}
+                className={`shrink-0 flex items-center px-3 rounded-lg border ${showFilters || recordFilter.from !== null || recordFilter.to !== null || recordKind !== 'ALL' || showRejected ? 'border-emerald-500 text-emerald-300 bg-emerald-900/30' : 'border-slate-700 text-slate-300 bg-slate-800'}`}
+              >
+                <SlidersHorizontal size={16} />
+              </button>
+            </div>
+            {showFilters && (
+              <div className="px-4 pt-2 shrink-0 flex flex-wrap items-center gap-2 text-sm">
+                <input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white"
+                />
+                <span className="text-slate-500">~</span>
+                <input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white"
+                />
+                <select
+                  value={recordKind}
+                  onChange={(e) => setRecordKind(e.target.value as RecordKind)}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-emerald-500"
+                >
+                  {(Object.keys(RECORD_KIND_LABELS) as RecordKind[]).map(kind => (
+                    <option key={kind} value={kind}>{t(RECORD_KIND_LABELS[kind])}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-slate-300 text-xs">
+                  <input type="checkbox" checked={showRejected} onChange={(e) => setShowRejected(e.target.checked)} />
+                  {t('filter.showRejected')}
+                </label>
+                <button onClick={clearRecordFilter} className="shrink-0 px-3 py-2 rounded-lg text-xs text-slate-300 border border-slate-700">
+                  {t('filter.reset')}
+                </button>
+              </div>
+            )}
+            {(hasRecordFilter(recordFilter) || showFilters) && (
+              <p className="px-4 pt-2 shrink-0 text-xs text-slate-400">
+                {t('filter.results', { count: visibleLogs.filter(l => l.type !== 'INFO').length })}
+              </p>
+            )}
+            {visibleLogs.length === 0 ? (
+              <div className="flex-1 flex flex-col items-center justify-center text-slate-500">
+                <List size={48} className="mb-2 opacity-50" />
+                <p>{t(hasRecordFilter(recordFilter) ? 'filter.noResults' : 'list.empty')}</p>
+              </div>
+            ) : (
+              <VirtualList
+                items={listRows}
+                getKey={row => row.key}
+                estimateHeight={row => (row.kind === 'marker' || row.record.type === 'INFO' ? 48 : row.record.type === 'REJECTED' ? 76 : row.record.gs1 ? 124 : 96)}
+                renderItem={renderListRow}
+                className="flex-1 px-4 pt-3"
+              />
+            )}
+            {deletedRecord && (
+              <div className="mx-4 mb-3 shrink-0 flex items-center gap-3 bg-slate-700 rounded-lg px-4 py-3 text-sm shadow-lg animate-in fade-in slide-in-from-bottom-2 duration-200">
+                <span className="flex-1 min-w-0 truncate">{t('list.deleted')} <span className="font-mono">{deletedRecord.code}</span></span>
+                <button onClick={handleUndoDelete} className="shrink-0 flex items-center gap-1 text-emerald-300 font-bold">
+                  <Undo2 size={14} /> {t('list.undo')}
+                </button>
+              </div>
+            )}
           </div>
         )}
       </main>
@@ -386,39 +1120,39 @@ export default function App() {
             className={`flex flex-col items-center justify-center rounded-lg transition-all py-1 ${view === 'scan' ? 'bg-emerald-600/20 text-emerald-400' : 'text-slate-400 hover:bg-slate-700'}`}
           >
             <Camera size={24} />
-            <span className="text-xs mt-1 font-medium">스캔</span>
+            <span className="text-xs mt-1 font-medium">{t('nav.scan')}</span>
           </button>
 
           <button
             onClick={() => setView('list')}
-            className={`flex flex-col items-center justify-center rounded-lg transition-all py-1 ${view === 'list' ? 'bg-emerald-600/20 text-emerald-400' : 'text-slate-400 hover:bg-slate-700'}`}
+            className={`flex flex-col items-center justify-center rounded-lg transition-all py-1 ${view !== 'scan' ? 'bg-emerald-600/20 text-emerald-400' : 'text-slate-400 hover:bg-slate-700'}`}
           >
             <List size={24} />
-            <span className="text-xs mt-1 font-medium">기록</span>
+            <span className="text-xs mt-1 font-medium">{t('nav.list')}</span>
           </button>
 
           {view === 'list' ? (
             // List View Buttons (Action Mode)
             <div className="flex flex-col gap-1.5 justify-center">
               <button
-                onClick={handleDownload}
+                onClick={() => openExportModal(filterRouteIds, true)}
                 className="flex-1 bg-blue-600 hover:bg-blue-500 text-white rounded flex items-center justify-center gap-1.5 transition-colors disabled:opacity-50 text-[11px] font-bold"
-                disabled={logs.length === 0}
+                disabled={visibleLogs.length === 0}
               >
-                <Download size={14} /> 저장
+                <Download size={14} /> {t('common.save')}
               </button>
               <div className="flex gap-1 h-1/2">
                 <button
                   onClick={handleCopy}
                   className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded flex items-center justify-center gap-1 transition-colors text-[10px]"
                 >
-                  <Copy size={12} /> 클립보드로 복사
+                  <Copy size={12} /> {t('list.copy')}
                 </button>
                 <button
                   onClick={clearLogs}
                   className="flex-1 bg-red-900/50 hover:bg-red-900 text-red-200 border border-red-900 rounded flex items-center justify-center gap-1 transition-colors text-[10px]"
                 >
-                  <Trash2 size={12} /> 초기화
+                  <Trash2 size={12} /> {t('list.clear')}
                 </button>
               </div>
             </div>
@@ -427,7 +1161,7 @@ export default function App() {
             <div className="flex flex-col items-center justify-center text-slate-500 bg-slate-800/50 rounded-lg p-1 relative overflow-hidden">
               <div className="absolute top-1 left-2 flex items-center gap-1 text-[10px] text-slate-400">
                 <Check size={10} />
-                <span>최근</span>
+                <span>{t('nav.recent')}</span>
               </div>
               {lastScan ? (
                 <span className="text-4xl font-mono font-black text-emerald-400 tracking-tighter leading-none mt-2">
@@ -440,6 +1174,85 @@ export default function App() {
           )}
         </div>
       </footer>
+
+      {showReconciliation && selectedRoute?.manifest && reconciliationRecords && (
+        <ReconciliationView
+          route={selectedRoute}
+          report={reconcile(selectedRoute.manifest, reconciliationRecords)}
+          onExport={() => handleReconciliationExport(selectedRoute)}
+          onClose={() => setShowReconciliation(false)}
+        />
+      )}
+
+      {actionRecord && (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60" onClick={() => setActionRecord(null)}>
+          <div className="bg-slate-800 rounded-t-2xl w-full max-w-md p-4 pb-safe border-t border-slate-700 space-y-2" onClick={(e) => e.stopPropagation()}>
+            <p className="font-mono text-center text-slate-300 break-all mb-2">{actionRecord.code}</p>
+            <button
+              onClick={() => { setEditingRecord(actionRecord); setActionRecord(null); }}
+              className="w-full py-3 rounded-lg bg-slate-700 text-white flex items-center justify-center gap-2"
+            >
+              <Pencil size={16} /> {t('record.edit')}
+            </button>
+            <button
+              onClick={() => { handleDeleteRecord(actionRecord); setActionRecord(null); }}
+              className="w-full py-3 rounded-lg bg-red-900/60 text-red-100 flex items-center justify-center gap-2"
+            >
+              <Trash2 size={16} /> {t('common.delete')}
+            </button>
+            <button onClick={() => setActionRecord(null)} className="w-full py-3 rounded-lg text-slate-400">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* GS1 records are edited as the full element string so validation can re-parse it */}
+      {editingRecord && (
+        <CodeEntryModal
+          title={t('record.edit')}
+          initialCode={editingRecord.gs1 ? formatGs1Hri(editingRecord.gs1) : editingRecord.code}
+          numericOnly={!editingRecord.gs1 && getProfile(routes.find(r => r.id === editingRecord.routeId)?.profileId).numericOnly}
+          onSubmit={handleEditSubmit}
+          onClose={() => setEditingRecord(null)}
+        />
+      )}
+
+      {showManualEntry && (
+        <CodeEntryModal
+          title={t('record.manualEntry')}
+          numericOnly={activeProfile.numericOnly && !activeProfile.gs1Mode}
+          onSubmit={handleManualSubmit}
+          onClose={() => setShowManualEntry(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsModal onClose={() => setShowSettings(false)} />
+      )}
+
+      {showExportModal && (
+        <ExportModal
+          routes={routes}
+          initialRouteIds={exportRouteIds}
+          initialFromDate={exportFromList ? fromDate : ''}
+          initialToDate={exportFromList ? toDate : ''}
+          filtered={exportFromList && (searchQuery.trim() !== '' || recordKind !== 'ALL')}
+          initialIncludeRejected={exportFromList && showRejected}
+          onExport={handleExport}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+const RouteMarker: React.FC<{ text: string }> = ({ text }) => (
+  <div className="flex items-center justify-center py-3">
+    <div className="h-[1px] bg-emerald-900/50 w-8 mx-2"></div>
+    <span className="text-xs text-emerald-400 font-bold bg-emerald-900/20 px-3 py-1 rounded-full border border-emerald-800/50">
+      {text}
+    </span>
+    <div className="h-[1px] bg-emerald-900/50 w-8 mx-2"></div>
+  </div>
+);
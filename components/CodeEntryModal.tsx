@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Delete } from 'lucide-react';
+import { t } from '../services/i18nService';
+
+interface CodeEntryModalProps {
+  title: string;
+  initialCode?: string;
+  numericOnly?: boolean; // false: let the device keyboard open for alphanumeric profiles
+  // Returns an error message to keep the modal open, or null when the code was taken
+  onSubmit: (code: string) => string | null;
+  onClose: () => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'C', '0', 'DEL'];
+
+// Numeric keypad for labels the camera can't read
+export const CodeEntryModal: React.FC<CodeEntryModalProps> = ({ title, initialCode = '', numericOnly = true, onSubmit, onClose }) => {
+  const [code, setCode] = useState(initialCode);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleKey = (key: string) => {
+    setError(null);
+    if (key === 'C') setCode('');
+    else if (key === 'DEL') setCode(prev => prev.slice(0, -1));
+    else setCode(prev => prev + key);
+  };
+
+  const handleSubmit = () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+    setError(onSubmit(trimmed));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm px-4">
+      <div className="bg-slate-800 rounded-xl w-full max-w-sm p-6 border border-slate-700 shadow-2xl">
+        <h3 className="text-lg font-bold text-white mb-4">{title}</h3>
+
+        <input
+          type="text"
+          inputMode={numericOnly ? 'none' : 'text'}
+          value={code}
+          onChange={(e) => { setCode(e.target.value); setError(null); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+          className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 font-mono text-2xl tracking-widest text-white text-center focus:outline-none focus:border-emerald-500"
+          autoFocus
+        />
+        <p className="h-5 mt-1 text-xs text-red-400 text-center">{error}</p>
+
+        <div className="grid grid-cols-3 gap-2 my-4">
+          {KEYS.map(key => (
+            <button
+              key={key}
+              onClick={() => handleKey(key)}
+              className={`h-12 rounded-lg text-xl font-semibold flex items-center justify-center active:bg-slate-600 ${key === 'C' || key === 'DEL' ? 'bg-slate-700 text-slate-300' : 'bg-slate-900 text-white'}`}
+            >
+              {key === 'DEL' ? <Delete size={20} /> : key}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 rounded-lg bg-slate-700 text-slate-300 font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!code.trim()}
+            className="flex-1 py-3 rounded-lg bg-emerald-600 text-white font-bold hover:bg-emerald-500 disabled:opacity-50"
+          >
+            {t('common.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
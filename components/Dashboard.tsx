@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { BarChart3, Download } from 'lucide-react';
+import { DASHBOARD_GROUPING_LABELS, DashboardGrouping, DashboardMetrics } from '../services/dashboardService';
+import { REJECTION_MESSAGES } from '../services/validationService';
+import { t } from '../services/i18nService';
+import { MessageKey, RejectionReason } from '../types';
+
+interface DashboardProps {
+  metrics: DashboardMetrics[]; // Newest first
+  grouping: DashboardGrouping;
+  onGroupingChange: (grouping: DashboardGrouping) => void;
+  onExport: () => void;
+}
+
+const formatNumber = (value: number | null, digits = 1) => (value === null ? '-' : value.toFixed(digits));
+
+const Tile: React.FC<{ label: MessageKey; value: string; className?: string }> = ({ label, value, className = 'text-white' }) => (
+  <div className="bg-slate-800 rounded-lg border border-slate-700 px-3 py-2">
+    <p className={`text-xl font-bold font-mono ${className}`}>{value}</p>
+    <p className="text-xs text-slate-400">{t(label)}</p>
+  </div>
+);
+
+// Scans per hour of day, trimmed to the hours that saw work
+const HourlyChart: React.FC<{ hourly: number[] }> = ({ hourly }) => {
+  const busy = hourly.map((count, hour) => (count > 0 ? hour : -1)).filter(hour => hour >= 0);
+  if (busy.length === 0) return <p className="text-xs text-slate-500 py-4 text-center">{t('dashboard.noScans')}</p>;
+  const hours = hourly.slice(busy[0], busy[busy.length - 1] + 1);
+  const max = Math.max(...hours);
+  return (
+    <div className="flex items-end gap-1 h-28">
+      {hours.map((count, i) => (
+        <div key={i} className="flex-1 min-w-0 h-full flex flex-col items-center justify-end gap-1">
+          <span className="text-[10px] text-slate-400">{count || ''}</span>
+          <div className="w-full bg-emerald-500/80 rounded-t" style={{ height: `${(count / max) * 100}%` }} />
+          <span className="text-[10px] text-slate-500">{busy[0] + i}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const RejectionChart: React.FC<{ rejections: DashboardMetrics['rejections'] }> = ({ rejections }) => {
+  const reasons = (Object.keys(REJECTION_MESSAGES) as RejectionReason[]).filter(reason => rejections[reason]);
+  if (reasons.length === 0) return <p className="text-xs text-slate-500 py-4 text-center">{t('dashboard.noRejections')}</p>;
+  const max = Math.max(...reasons.map(reason => rejections[reason]!));
+  return (
+    <div className="space-y-2">
+      {reasons.map(reason => (
+        <div key={reason} className="flex items-center gap-2 text-xs">
+          <span className="w-24 shrink-0 truncate text-slate-300">{t(REJECTION_MESSAGES[reason])}</span>
+          <div className="flex-1 h-3 bg-slate-900 rounded">
+            <div className="h-full bg-red-500/80 rounded" style={{ width: `${(rejections[reason]! / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right font-mono text-slate-300">{rejections[reason]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Productivity and read-quality figures per route or per day
+export const Dashboard: React.FC<DashboardProps> = ({ metrics, grouping, onGroupingChange, onExport }) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const selected = metrics.find(m => m.key === selectedKey) || metrics[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="flex flex-1 rounded-lg border border-slate-700 overflow-hidden text-sm">
+          {(Object.keys(DASHBOARD_GROUPING_LABELS) as DashboardGrouping[]).map(g => (
+            <button
+              key={g}
+              onClick={() => { onGroupingChange(g); setSelectedKey(null); }}
+              className={`flex-1 py-2 ${grouping === g ? 'bg-emerald-600/30 text-emerald-300' : 'bg-slate-800 text-slate-400'}`}
+            >
+              {t(DASHBOARD_GROUPING_LABELS[g])}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onExport}
+          disabled={metrics.length === 0}
+          className="shrink-0 flex items-center gap-1 px-3 rounded-lg bg-blue-600 text-white text-sm font-bold disabled:bg-slate-700 disabled:text-slate-500"
+        >
+          <Download size={14} /> {t('dashboard.export')}
+        </button>
+      </div>
+
+      {!selected ? (
+        <div className="flex flex-col items-center justify-center h-64 text-slate-500">
+          <BarChart3 size={48} className="mb-2 opacity-50" />
+          <p>{t('dashboard.empty')}</p>
+        </div>
+      ) : (
+        <>
+          <select
+            value={selected.key}
+            onChange={(e) => setSelectedKey(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+          >
+            {metrics.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Tile label="dashboard.scans" value={String(selected.scanCount)} className="text-sky-300" />
+            <Tile label="dashboard.scansPerHour" value={formatNumber(selected.scansPerHour)} />
+            <Tile
+              label="dashboard.avgInterval"
+              value={selected.avgIntervalMs === null ? '-' : `${formatNumber(selected.avgIntervalMs / 1000)}s`}
+            />
+            <Tile label="dashboard.rejected" value={String(selected.rejectedCount)} className={selected.rejectedCount > 0 ? 'text-red-300' : 'text-white'} />
+            <Tile label="dashboard.duplicates" value={String(selected.duplicateAttempts)} className={selected.duplicateAttempts > 0 ? 'text-amber-300' : 'text-white'} />
+            <Tile
+              label="dashboard.decodeLatency"
+              value={selected.decodeLatencyMs === null ? '-' : `${formatNumber(selected.decodeLatencyMs, 0)}ms`}
+            />
+            <Tile label="dashboard.fps" value={formatNumber(selected.framesPerSecond)} />
+          </div>
+
+          <section className="bg-slate-800 rounded-lg border border-slate-700 p-3">
+            <h3 className="text-xs font-bold text-slate-300 mb-3">{t('dashboard.hourly')}</h3>
+            <HourlyChart hourly={selected.hourly} />
+          </section>
+
+          <section className="bg-slate-800 rounded-lg border border-slate-700 p-3">
+            <h3 className="text-xs font-bold text-slate-300 mb-3">{t('dashboard.rejections')}</h3>
+            <RejectionChart rejections={selected.rejections} />
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat, ExportOptions } from '../services/exportService';
+import { formatDate, t } from '../services/i18nService';
+import { parseDateInput } from '../services/recordFilterService';
+import { MessageKey, Route } from '../types';
+
+interface ExportModalProps {
+  routes: Route[];
+  initialRouteIds: string[] | null;
+  initialFromDate?: string; // <input type="date"> values
+  initialToDate?: string;
+  filtered?: boolean; // Only records matching the list's search / type filter are exported
+  initialIncludeRejected?: boolean;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, MessageKey> = {
+  CSV: 'export.CSV',
+  JSON: 'export.JSON',
+  TXT: 'export.TXT',
+};
+
+export const ExportModal: React.FC<ExportModalProps> = ({
+  routes, initialRouteIds, initialFromDate = '', initialToDate = '', filtered = false, initialIncludeRejected = false,
+  onExport, onClose
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('CSV');
+  const [routeIds, setRouteIds] = useState<string[] | null>(initialRouteIds);
+  const [fromDate, setFromDate] = useState(initialFromDate);
+  const [toDate, setToDate] = useState(initialToDate);
+  const [includeMarkers, setIncludeMarkers] = useState(false);
+  const [includeRejected, setIncludeRejected] = useState(initialIncludeRejected);
+
+  const toggleRoute = (id: string) => {
+    setRouteIds(prev => {
+      const current = prev ?? [];
+      return current.includes(id) ? current.filter(r => r !== id) : [...current, id];
+    });
+  };
+
+  const handleConfirm = () => {
+    if (routeIds !== null && routeIds.length === 0) {
+      alert(t('export.routeRequired'));
+      return;
+    }
+    onExport({
+      format,
+      routeIds,
+      from: parseDateInput(fromDate, false),
+      to: parseDateInput(toDate, true),
+      includeMarkers,
+      includeRejected,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm px-4">
+      <div className="bg-slate-800 rounded-xl w-full max-w-sm p-6 border border-slate-700 shadow-2xl max-h-[90dvh] flex flex-col">
+        <h3 className="text-lg font-bold text-white mb-4">{t('export.title')}</h3>
+
+        <div className="flex-1 overflow-y-auto space-y-4 text-sm">
+          {filtered && (
+            <p className="text-xs text-amber-300 bg-amber-900/20 border border-amber-800/50 rounded-lg px-3 py-2">
+              {t('export.filtered')}
+            </p>
+          )}
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">{t('export.format')}</label>
+            <div className="flex gap-2">
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFormat(f)}
+                  className={`flex-1 py-2 rounded-lg border text-xs font-medium ${format === f ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'border-slate-600 text-slate-300'}`}
+                >
+                  {t(FORMAT_LABELS[f])}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">{t('export.routes')}</label>
+            <label className="flex items-center gap-2 py-1 text-slate-200">
+              <input type="checkbox" checked={routeIds === null} onChange={(e) => setRouteIds(e.target.checked ? null : [])} />
+              {t('export.allRecords')}
+            </label>
+            {routeIds !== null && (
+              <div className="max-h-40 overflow-y-auto pl-2 border-l border-slate-700">
+                {[...routes].reverse().map(r => (
+                  <label key={r.id} className="flex items-center gap-2 py-1 text-slate-300">
+                    <input type="checkbox" checked={routeIds.includes(r.id)} onChange={() => toggleRoute(r.id)} />
+                    <span className="truncate">{r.name} ({formatDate(r.startedAt)})</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">{t('export.period')}</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-white"
+              />
+              <span className="text-slate-500">~</span>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-white"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-slate-200">
+            <input type="checkbox" checked={includeMarkers} onChange={(e) => setIncludeMarkers(e.target.checked)} />
+            {t('export.includeMarkers')}
+          </label>
+          <label className="flex items-center gap-2 text-slate-200">
+            <input type="checkbox" checked={includeRejected} onChange={(e) => setIncludeRejected(e.target.checked)} />
+            {t('export.includeRejected')}
+          </label>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="flex-1 py-3 rounded-lg bg-slate-700 text-slate-300 font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="flex-1 py-3 rounded-lg bg-blue-600 text-white font-bold hover:bg-blue-500 flex items-center justify-center gap-1.5"
+          >
+            <Download size={16} /> {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
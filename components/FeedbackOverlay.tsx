@@ -1,18 +1,23 @@
 import React from 'react';
-import { FeedbackState } from '../types';
+import { FeedbackState, FeedbackType } from '../types';
 
 interface FeedbackOverlayProps {
   state: FeedbackState;
 }
 
+const STYLES: Record<FeedbackType, { colorClass: string; borderClass: string; textClass: string }> = {
+  success: { colorClass: 'bg-green-500/20', borderClass: 'border-green-300', textClass: 'text-green-50' },
+  count: { colorClass: 'bg-sky-500/20', borderClass: 'border-sky-300', textClass: 'text-sky-50' },
+  warning: { colorClass: 'bg-amber-500/20', borderClass: 'border-amber-300', textClass: 'text-amber-50' },
+  error: { colorClass: 'bg-red-500/20', borderClass: 'border-red-300', textClass: 'text-red-50' },
+};
+
 export const FeedbackOverlay: React.FC<FeedbackOverlayProps> = ({ state }) => {
   if (!state) return null;
 
   const { type, message } = state;
 
-  const colorClass = type === 'success' ? 'bg-green-500/20' : 'bg-red-500/20';
-  const borderClass = type === 'success' ? 'border-green-300' : 'border-red-300';
-  const textClass = type === 'success' ? 'text-green-50' : 'text-red-50';
+  const { colorClass, borderClass, textClass } = STYLES[type];
 
   return (
     <div className={`absolute inset-0 z-50 pointer-events-none flex flex-col items-center justify-center animate-pulse transition-colors duration-200 ${colorClass}`}>
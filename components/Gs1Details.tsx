@@ -0,0 +1,19 @@
+import React from 'react';
+import { getAiLabelKey, formatGs1Value } from '../services/gs1Service';
+import { t } from '../services/i18nService';
+import { Gs1Element } from '../types';
+
+// Parsed GS1 Application Identifiers shown under a scanned code
+export const Gs1Details: React.FC<{ elements: Gs1Element[] }> = ({ elements }) => (
+  <div className="flex flex-wrap gap-1 mt-2">
+    {elements.map(({ ai, value }) => {
+      const labelKey = getAiLabelKey(ai);
+      return (
+        <span key={ai} className="text-[10px] bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300">
+          <span className="text-slate-500">({ai}){labelKey && ` ${t(labelKey)}`}</span>{' '}
+          <span className="font-mono">{formatGs1Value(ai, value)}</span>
+        </span>
+      );
+    })}
+  </div>
+);
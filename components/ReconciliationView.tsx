@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { ReconciliationReport } from '../services/manifestService';
+import { t } from '../services/i18nService';
+import { MessageKey, Route } from '../types';
+
+interface ReconciliationViewProps {
+  route: Route;
+  report: ReconciliationReport;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+type Section = keyof ReconciliationReport;
+
+const SECTIONS: Array<{ key: Section; label: MessageKey; className: string }> = [
+  { key: 'missing', label: 'reconcile.missing', className: 'text-amber-400 border-amber-500' },
+  { key: 'unexpected', label: 'reconcile.unexpected', className: 'text-red-400 border-red-500' },
+  { key: 'scanned', label: 'reconcile.scanned', className: 'text-emerald-400 border-emerald-500' },
+];
+
+export const ReconciliationView: React.FC<ReconciliationViewProps> = ({ route, report, onExport, onClose }) => {
+  const [section, setSection] = useState<Section>('missing');
+  const codes = report[section];
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-slate-900">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-800 border-b border-slate-700">
+        <div>
+          <h3 className="text-base font-bold text-white">{t('reconcile.title')}</h3>
+          <p className="text-xs text-slate-400">
+            {t('reconcile.progress', { name: route.name, done: report.scanned.length, total: route.manifest?.length || 0 })}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-lg text-slate-300 hover:bg-slate-700">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 p-3">
+        {SECTIONS.map(({ key, label, className }) => (
+          <button
+            key={key}
+            onClick={() => setSection(key)}
+            className={`flex flex-col items-center py-2 rounded-lg border ${section === key ? `${className} bg-slate-800` : 'border-slate-700 text-slate-400'}`}
+          >
+            <span className="text-2xl font-bold">{report[key].length}</span>
+            <span className="text-xs">{t(label)}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+        {codes.length === 0 ? (
+          <p className="text-center text-slate-500 py-10">{t('reconcile.empty')}</p>
+        ) : (
+          codes.map(code => (
+            <div key={code} className="bg-slate-800 px-4 py-3 rounded-lg border border-slate-700">
+              <p className="text-xl font-mono text-white tracking-widest">{code}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="p-3 bg-slate-800 border-t border-slate-700 pb-safe">
+        <button
+          onClick={onExport}
+          className="w-full py-3 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-bold flex items-center justify-center gap-1.5"
+        >
+          <Download size={16} /> {t('reconcile.export')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Ban, ChevronRight, Clock, Download, History, ScanBarcode, Trash2 } from 'lucide-react';
+import { RouteSummary } from '../services/routeService';
+import { formatDate, formatDuration, formatTime, t } from '../services/i18nService';
+
+interface RouteHistoryProps {
+  summaries: RouteSummary[]; // Newest first
+  activeRouteId: string | null; // The route being scanned can't be deleted
+  onOpen: (routeId: string) => void;
+  onExport: (routeId: string) => void;
+  onDelete: (summary: RouteSummary) => void;
+}
+
+// Past routes with their totals; opening one shows its records in the list view
+export const RouteHistory: React.FC<RouteHistoryProps> = ({ summaries, activeRouteId, onOpen, onExport, onDelete }) => {
+  if (summaries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-slate-500">
+        <History size={48} className="mb-2 opacity-50" />
+        <p>{t('history.empty')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {summaries.map(summary => {
+        const { route, scanCount, caseCount, rejectedCount, durationMs } = summary;
+        const status = route.status === 'ACTIVE'
+          ? t('history.active')
+          : `${formatDuration(durationMs ?? 0)}${route.status === 'INTERRUPTED' ? ` · ${t('history.interrupted')}` : ''}`;
+        return (
+          <div key={route.id} className="bg-slate-800 rounded-lg border border-slate-700 shadow-sm">
+            <button onClick={() => onOpen(route.id)} className="w-full p-4 flex items-center gap-3 text-left">
+              <div className="flex-1 min-w-0">
+                <p className="text-white font-bold truncate">{route.name}</p>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {formatDate(route.startedAt)} {formatTime(route.startedAt)}
+                </p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs">
+                  <span className={`flex items-center gap-1 ${route.status === 'ACTIVE' ? 'text-emerald-400' : 'text-slate-300'}`}>
+                    <Clock size={12} /> {status}
+                  </span>
+                  <span className="flex items-center gap-1 text-sky-300">
+                    <ScanBarcode size={12} /> {t('history.scans', { count: caseCount })}
+                  </span>
+                  <span className={`flex items-center gap-1 ${rejectedCount > 0 ? 'text-red-300' : 'text-slate-500'}`}>
+                    <Ban size={12} /> {t('history.rejected', { count: rejectedCount })}
+                  </span>
+                </div>
+              </div>
+              <ChevronRight size={20} className="shrink-0 text-slate-500" />
+            </button>
+            <div className="flex border-t border-slate-700 text-xs">
+              <button
+                onClick={() => onExport(route.id)}
+                disabled={scanCount === 0}
+                className="flex-1 py-2 flex items-center justify-center gap-1 text-blue-300 disabled:text-slate-600"
+              >
+                <Download size={14} /> {t('history.export')}
+              </button>
+              <button
+                onClick={() => onDelete(summary)}
+                disabled={route.id === activeRouteId}
+                className="flex-1 py-2 flex items-center justify-center gap-1 text-red-300 border-l border-slate-700 disabled:text-slate-600"
+              >
+                <Trash2 size={14} /> {t('common.delete')}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,11 +1,31 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { BrowserMultiFormatReader, BarcodeFormat, DecodeHintType } from '@zxing/library';
-import { AlertCircle, Scan, Camera } from 'lucide-react';
+import { BrowserMultiFormatReader } from '@zxing/library';
+import { AlertCircle, Scan, Camera, ImagePlus, Aperture, Flashlight, FlashlightOff, ZoomIn } from 'lucide-react';
+import {
+  buildDecodeHints, decodeImageData, GUIDE_BOX, GUIDE_BOX_MARGIN, loadImageFile, mapContainerPointToVideo,
+  mapGuideBoxToVideo
+} from '../services/decoderService';
+import { loadCameraControls, saveCameraControls } from '../services/cameraControlsService';
+import { createFrameDecoder, FrameDecoder } from '../services/decoderBackendService';
+import { recordDecoderFrame } from '../services/telemetryService';
+import {
+  advanceConsensus, bandRoi, ConsensusState, expireConsensus, isConsensusEnabled, positionBandCount
+} from '../services/consensusService';
+import { getSettings, RESOLUTIONS } from '../services/settingsService';
+import { t, useLocale } from '../services/i18nService';
+import { ConsensusSettings, DecoderBackendId, MessageKey } from '../types';
 
 interface ScannerProps {
-  onScan: (result: string, format: string) => void;
+  onScan: (result: string, format: string) => void; // format: ZXing BarcodeFormat name, e.g. 'ITF'
   onError: (error: string) => void;
   isPaused: boolean;
+  formats: string[]; // Symbologies to decode (ZXing BarcodeFormat names)
+  assumeGs1?: boolean; // Keep FNC1 / GS separators for GS1-128 element strings
+  profileLabel: string; // Shown in the top info badge
+  rotateRoi?: boolean; // Try the portrait guide-box crop turned 90° first, so codes held along the box read as rows
+  backend: DecoderBackendId; // Requested live decoder; the one actually used is shown in the badge
+  consensus: ConsensusSettings; // Reads needed before a live code is passed to onScan
+  routeId?: string | null; // Live-decoder telemetry (latency, frames per second) is booked on this route
 }
 
 // Camera Device Interface
@@ -14,8 +34,17 @@ interface VideoInput {
   label: string;
 }
 
+// Device labels are English ("camera2 0, facing back"); shown in the UI language
+const localizeCameraLabel = (label: string) => label
+  .replace(/facing back/i, t('camera.back'))
+  .replace(/facing front/i, t('camera.front'))
+  .replace(/camera/i, t('camera.camera'))
+  .replace(/back/i, t('camera.back'))
+  .replace(/front/i, t('camera.front'));
+
 // React.memo: Prevents unnecessary re-renders
-export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused }) => {
+export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused, formats, assumeGs1 = false, profileLabel, rotateRoi = true, backend, consensus, routeId = null }) => {
+  useLocale(); // Memoized: re-render on a language change
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
 
   // Camera State
@@ -25,15 +54,32 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
   const [isSwitching, setIsSwitching] = useState(false);
   const [resolutionDebug, setResolutionDebug] = useState<string>('');
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [isDecodingPhoto, setIsDecodingPhoto] = useState(false);
+  const [decoderLabel, setDecoderLabel] = useState<MessageKey | null>(null);
+  const [confirmedReads, setConfirmedReads] = useState(0); // Progress of the current candidate
+  const [misreadCount, setMisreadCount] = useState(0);     // Frames that disagreed with a candidate
+
+  // Manual camera controls (only shown when the active track supports them)
+  const [zoomRange, setZoomRange] = useState<{ min: number; max: number; step: number } | null>(null);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [showZoomSlider, setShowZoomSlider] = useState(false);
+  const [hasTorch, setHasTorch] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [canFocusPoint, setCanFocusPoint] = useState(false);
+  const [focusMarker, setFocusMarker] = useState<{ x: number; y: number } | null>(null);
+  const focusMarkerTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const videoTrackRef = useRef<MediaStreamTrack | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
+  const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null); // Photos
+  const decoderRef = useRef<FrameDecoder | null>(null); // Live camera frames
+  const consensusRef = useRef<ConsensusState>([]);
 
   const activeRef = useRef<boolean>(!isPaused);
   const isBusyRef = useRef<boolean>(false);
+  const bandRef = useRef(0); // POSITIONS consensus: ROI band decoded on the next frame
 
   useEffect(() => {
     activeRef.current = !isPaused;
@@ -50,18 +96,32 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
     }, 2000);
   };
 
-  // 1. Initialize Decoder Engine (ZXing)
+  // 1. Initialize Decoder Engines - rebuilt when the profile's symbologies or the backend change
+  const formatsKey = formats.join(',');
   useEffect(() => {
-    const hints = new Map<DecodeHintType, any>();
-    hints.set(DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.ITF]);
-    hints.set(DecodeHintType.TRY_HARDER, true);
+    codeReaderRef.current = new BrowserMultiFormatReader(buildDecodeHints(formats, assumeGs1));
 
-    codeReaderRef.current = new BrowserMultiFormatReader(hints);
+    let cancelled = false;
+    createFrameDecoder(backend, formats, assumeGs1).then(decoder => {
+      if (cancelled) {
+        decoder.dispose();
+        return;
+      }
+      decoderRef.current = decoder;
+      setDecoderLabel(decoder.label);
+    });
 
     return () => {
+      cancelled = true;
       codeReaderRef.current = null;
-      if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
+      decoderRef.current?.dispose();
+      decoderRef.current = null;
     };
+  }, [formatsKey, assumeGs1, backend]);
+
+  useEffect(() => () => {
+    if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
+    if (focusMarkerTimeoutRef.current) clearTimeout(focusMarkerTimeoutRef.current);
   }, []);
 
   // 2. Discover Cameras
@@ -96,33 +156,37 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
       currentStream.getTracks().forEach(t => t.stop());
     }
 
+    const { resolutionLadder, autoZoom } = getSettings();
+
     try {
-      let constraints: MediaStreamConstraints = {
-        audio: false,
-        video: {
-          // Resolution Strategy: Try FHD (1080p) first, fallback handled in catch or by browser
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          // If deviceId is provided, use it exactly. Otherwise prefer environment.
-          deviceId: deviceId ? { exact: deviceId } : undefined,
-          facingMode: deviceId ? undefined : 'environment'
-        }
+      const baseVideo: MediaTrackConstraints = {
+        // If deviceId is provided, use it exactly. Otherwise prefer environment.
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        facingMode: deviceId ? undefined : 'environment'
       };
 
-      let stream: MediaStream;
-
-      try {
-        stream = await navigator.mediaDevices.getUserMedia(constraints);
-      } catch (err) {
-        console.warn("FHD failed, trying HD...");
-        // Fallback: 720p
-        constraints.video = {
-          ...constraints.video as MediaTrackConstraints,
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        };
-        stream = await navigator.mediaDevices.getUserMedia(constraints);
+      // Resolution Strategy: walk the configured ladder (highest first), then let the browser pick
+      const attempts: MediaTrackConstraints[] = [
+        ...resolutionLadder.map(step => ({
+          ...baseVideo,
+          width: { ideal: RESOLUTIONS[step].width },
+          height: { ideal: RESOLUTIONS[step].height }
+        })),
+        baseVideo
+      ];
+
+      let stream: MediaStream | null = null;
+      let lastError: unknown = null;
+      for (const video of attempts) {
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({ audio: false, video });
+          break;
+        } catch (err) {
+          console.warn("Camera constraints rejected, trying next step...", video);
+          lastError = err;
+        }
       }
+      if (!stream) throw lastError;
 
       streamRef.current = stream;
 
@@ -147,38 +211,56 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
         setActiveDeviceId(activeId);
         localStorage.setItem('scanner_last_device_id', activeId);
 
-        // Update Label
-        let label = track.label || 'Unknown Camera';
-
-        // Translate and Clean Label
-        label = label
-          .replace(/facing back/i, '후면')
-          .replace(/facing front/i, '전면')
-          .replace(/camera/i, '카메라')
-          .replace(/back/i, '후면')
-          .replace(/front/i, '전면');
-
+        // Update Label (kept raw, translated on render)
+        const label = track.label || 'Unknown Camera';
         setActiveCameraLabel(label);
 
         // Only show toast if switching (not initial load if possible, but hard to distinguish here easily. 
         // We can check if isSwitching is true, but it is always true inside this function.
         // Let's just always show it on successful start, it confirms "Camera Ready"
-        showToast(`📷 ${label}`);
+        showToast(`📷 ${localizeCameraLabel(label)}`);
       }
 
-      // --- Auto Zoom (Optimization) ---
-      // Apply ~2.0x zoom automatically if supported
       const cap = track.getCapabilities() as any;
+      const controls = activeId ? loadCameraControls(activeId) : null;
+
+      // --- Zoom (Optimization) ---
+      // This camera's saved zoom, otherwise the auto-zoom setting
       if (cap.zoom) {
-        const targetZoom = Math.min(Math.max(2.0, cap.zoom.min), cap.zoom.max);
+        setZoomRange({ min: cap.zoom.min, max: cap.zoom.max, step: cap.zoom.step || 0.1 });
+        const wanted = controls?.zoom ?? (autoZoom > 1 ? autoZoom : null);
+        let currentZoom = (track.getSettings() as any).zoom ?? cap.zoom.min;
+        if (wanted !== null) {
+          const targetZoom = Math.min(Math.max(wanted, cap.zoom.min), cap.zoom.max);
+          try {
+            await track.applyConstraints({ advanced: [{ zoom: targetZoom }] } as any);
+            currentZoom = targetZoom;
+          } catch (e) {
+            console.warn("Zoom apply failed", e);
+          }
+        }
+        setZoom(currentZoom);
+      } else {
+        setZoomRange(null);
+        setZoom(null);
+        setShowZoomSlider(false);
+      }
+
+      // --- Torch ---
+      setHasTorch(!!cap.torch);
+      setTorchOn(false);
+      if (cap.torch && controls?.torch) {
         try {
-          await track.applyConstraints({ advanced: [{ zoom: targetZoom }] } as any);
-          console.log(`Auto-zoom applied: ${targetZoom}x`);
+          await track.applyConstraints({ advanced: [{ torch: true }] } as any);
+          setTorchOn(true);
         } catch (e) {
-          console.warn("Zoom apply failed", e);
+          console.warn("Torch apply failed", e);
         }
       }
 
+      // --- Tap to Focus ---
+      setCanFocusPoint(!!(navigator.mediaDevices.getSupportedConstraints() as any).pointsOfInterest);
+
       // --- Auto Focus ---
       try {
         await track.applyConstraints({ advanced: [{ focusMode: 'continuous' }] } as any);
@@ -197,7 +279,7 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
     } catch (err) {
       console.error("Camera Error", err);
       setHasCameraPermission(false);
-      onError("카메라를 실행할 수 없습니다. (권한/하드웨어)");
+      onError(t('camera.startFailed'));
     } finally {
       setIsSwitching(false);
     }
@@ -230,9 +312,21 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
     };
   }, []); // Run once on mount
 
+  // Only touch React state when the visible progress actually changes
+  const updateConsensus = useCallback((state: ConsensusState) => {
+    if (state === consensusRef.current) return;
+    consensusRef.current = state;
+    setConfirmedReads(prev => (prev === state.length ? prev : state.length));
+  }, []);
+
+  useEffect(() => {
+    updateConsensus([]);
+    setMisreadCount(0);
+  }, [consensus, updateConsensus]);
+
   // 5. Decoding Loop
   useEffect(() => {
-    if (!hasCameraPermission || !codeReaderRef.current) return;
+    if (!hasCameraPermission) return;
 
     const loop = async () => {
       animationFrameRef.current = requestAnimationFrame(loop);
@@ -242,12 +336,42 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
       const video = videoRef.current;
       if (!video || video.readyState !== video.HAVE_ENOUGH_DATA) return;
 
+      const decoder = decoderRef.current;
+      if (!decoder || !video.videoWidth || !video.clientWidth) return;
+
       try {
         isBusyRef.current = true;
-        // @ts-ignore
-        const result = await codeReaderRef.current.decode(video);
-        if (activeRef.current && result) {
-          onScan(result.getText(), result.getBarcodeFormat().toString());
+        // Decode only what is inside the guide box: faster, and labels on neighbouring cartons stay out
+        const guideRoi = mapGuideBoxToVideo(
+          { width: video.clientWidth, height: video.clientHeight },
+          { width: video.videoWidth, height: video.videoHeight },
+          GUIDE_BOX,
+          GUIDE_BOX_MARGIN
+        );
+        if (guideRoi.width <= 0 || guideRoi.height <= 0) return;
+
+        // POSITIONS consensus: each frame reads a different band, so agreement spans scanlines
+        const bands = positionBandCount(consensus);
+        const band = bands > 1 ? bandRef.current++ % bands : undefined;
+        const roi = band === undefined ? guideRoi : bandRoi(guideRoi, band, bands);
+
+        // isBusyRef stays set until the decoder answers: frames arriving meanwhile are skipped, not queued
+        const decodeStart = performance.now();
+        const result = await decoder.decodeFrame(video, roi, rotateRoi);
+        recordDecoderFrame(routeId, performance.now() - decodeStart, !!result);
+        if (!activeRef.current) return;
+
+        const now = Date.now();
+        if (!result) {
+          updateConsensus(expireConsensus(consensusRef.current, now, consensus));
+          return;
+        }
+
+        const step = advanceConsensus(consensusRef.current, { ...result, time: now, band }, consensus);
+        if (step.misread) setMisreadCount(c => c + 1);
+        updateConsensus(step.state);
+        if (step.confirmed) {
+          onScan(step.confirmed.text, step.confirmed.format);
         }
       } catch (err) {
         // No code found
@@ -257,9 +381,59 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
     };
     loop();
     return () => { if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current); };
-  }, [hasCameraPermission, onScan, isSwitching]);
+  }, [hasCameraPermission, onScan, isSwitching, rotateRoi, consensus, updateConsensus, routeId]);
+
+  // 6. Manual Camera Controls - persisted per deviceId
+  const applyTrackConstraint = async (constraint: Record<string, unknown>): Promise<boolean> => {
+    const track = videoTrackRef.current;
+    if (!track) return false;
+    try {
+      await track.applyConstraints({ advanced: [constraint] } as any);
+      return true;
+    } catch (e) {
+      console.warn("Constraint apply failed", constraint, e);
+      return false;
+    }
+  };
+
+  const handleToggleTorch = async () => {
+    const next = !torchOn;
+    if (!(await applyTrackConstraint({ torch: next }))) return;
+    setTorchOn(next);
+    if (activeDeviceId) saveCameraControls(activeDeviceId, { torch: next });
+  };
 
-  // 6. Manual Switch Handler
+  const handleZoomChange = (value: number) => {
+    setZoom(value);
+    applyTrackConstraint({ zoom: value });
+    if (activeDeviceId) saveCameraControls(activeDeviceId, { zoom: value });
+  };
+
+  const handleTapToFocus = (e: React.PointerEvent<HTMLVideoElement>) => {
+    const video = videoRef.current;
+    if (!canFocusPoint || !video || !video.videoWidth) return;
+
+    const rect = video.getBoundingClientRect();
+    const tap = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    // pointsOfInterest are normalized frame coordinates, so undo the object-cover crop
+    const point = mapContainerPointToVideo(
+      { width: rect.width, height: rect.height },
+      { width: video.videoWidth, height: video.videoHeight },
+      tap
+    );
+
+    const focusModes: string[] = (videoTrackRef.current?.getCapabilities() as any)?.focusMode || [];
+    applyTrackConstraint({
+      pointsOfInterest: [point],
+      ...(focusModes.includes('single-shot') ? { focusMode: 'single-shot' } : {})
+    });
+
+    if (focusMarkerTimeoutRef.current) clearTimeout(focusMarkerTimeoutRef.current);
+    setFocusMarker(tap);
+    focusMarkerTimeoutRef.current = setTimeout(() => setFocusMarker(null), 800);
+  };
+
+  // 7. Manual Switch Handler
   const handleSwitchCamera = () => {
     if (availableCameras.length < 2) return;
 
@@ -270,12 +444,38 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
     startCamera(nextDevice.deviceId);
   };
 
+  // 8. Scan From Photo (fallback for labels the live camera can't read)
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same photo again
+    const reader = codeReaderRef.current;
+    if (!file || !reader) return;
+
+    setIsDecodingPhoto(true);
+    try {
+      const image = await loadImageFile(file);
+      // Yield a frame so the spinner shows before the synchronous decode
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const result = decodeImageData(reader, image);
+      if (result) {
+        onScan(result.text, result.format);
+      } else {
+        showToast(t('scanner.photoNotFound'));
+      }
+    } catch (err) {
+      console.error("Photo decode failed", err);
+      showToast(t('scanner.photoFailed'));
+    } finally {
+      setIsDecodingPhoto(false);
+    }
+  };
+
   if (hasCameraPermission === false) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-red-400 p-6 text-center bg-slate-900">
         <AlertCircle size={48} className="mb-4" />
-        <p className="text-lg font-semibold">카메라 오류</p>
-        <button onClick={() => window.location.reload()} className="mt-4 bg-slate-700 px-4 py-2 rounded">새로고침</button>
+        <p className="text-lg font-semibold">{t('camera.error')}</p>
+        <button onClick={() => window.location.reload()} className="mt-4 bg-slate-700 px-4 py-2 rounded">{t('camera.reload')}</button>
       </div>
     );
   }
@@ -288,19 +488,48 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
         muted
         playsInline
         autoPlay
+        onPointerDown={handleTapToFocus}
       />
 
+      {/* Tap-to-focus marker */}
+      {focusMarker && (
+        <div
+          className="absolute z-20 w-14 h-14 -ml-7 -mt-7 border-2 border-amber-300 rounded-full pointer-events-none animate-in zoom-in-50 duration-200"
+          style={{ left: focusMarker.x, top: focusMarker.y }}
+        />
+      )}
+
       {/* Scan Guide Overlay */}
       <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10 transition-all duration-300">
         {/* Laser Line */}
         <div className="absolute w-0.5 h-full bg-red-500/80 shadow-[0_0_8px_rgba(239,68,68,0.8)]"></div>
 
         {/* Box - Portrait Size (Optimized for mobile) */}
-        <div className="w-[140px] h-[240px] border-2 border-white/40 rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] box-border relative">
+        <div
+          style={{ width: GUIDE_BOX.width, height: GUIDE_BOX.height }}
+          className="border-2 border-white/40 rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] box-border relative"
+        >
           <div className="absolute top-0 left-0 w-3 h-3 border-t-2 border-l-2 border-emerald-400 -mt-0.5 -ml-0.5"></div>
           <div className="absolute top-0 right-0 w-3 h-3 border-t-2 border-r-2 border-emerald-400 -mt-0.5 -mr-0.5"></div>
           <div className="absolute bottom-0 left-0 w-3 h-3 border-b-2 border-l-2 border-emerald-400 -mb-0.5 -ml-0.5"></div>
           <div className="absolute bottom-0 right-0 w-3 h-3 border-b-2 border-r-2 border-emerald-400 -mb-0.5 -mr-0.5"></div>
+
+          {/* Consensus progress: one segment per required read */}
+          {isConsensusEnabled(consensus) && (
+            <div className="absolute -bottom-5 left-0 right-0 flex gap-1">
+              {Array.from({ length: consensus.requiredReads }, (_, i) => (
+                <div
+                  key={i}
+                  className={`flex-1 h-1.5 rounded-full transition-colors duration-150 ${i < confirmedReads ? 'bg-emerald-400' : 'bg-white/25'}`}
+                />
+              ))}
+            </div>
+          )}
+          {misreadCount > 0 && (
+            <span className="absolute -bottom-10 left-1/2 -translate-x-1/2 whitespace-nowrap text-[10px] text-amber-300 bg-black/60 px-2 py-0.5 rounded">
+              {t('scanner.misread', { count: misreadCount })}
+            </span>
+          )}
         </div>
       </div>
 
@@ -313,8 +542,48 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
         </div>
       )}
 
+      {/* Zoom Slider */}
+      {showZoomSlider && zoomRange && zoom !== null && (
+        <div className="absolute bottom-24 left-6 right-24 z-30 flex items-center gap-3 bg-black/50 backdrop-blur-md rounded-full border border-white/20 px-4 py-3 shadow-lg">
+          <input
+            type="range"
+            min={zoomRange.min}
+            max={zoomRange.max}
+            step={zoomRange.step}
+            value={zoom}
+            onChange={(e) => handleZoomChange(Number(e.target.value))}
+            className="flex-1 accent-emerald-400"
+          />
+          <span className="w-10 text-right text-xs font-mono text-white">{zoom.toFixed(1)}x</span>
+        </div>
+      )}
+
       {/* Controls Overlay */}
       <div className="absolute bottom-6 right-6 z-30 flex flex-col gap-4">
+        {hasTorch && (
+          <button
+            onClick={handleToggleTorch}
+            className={`backdrop-blur-md p-3 rounded-full border transition-all shadow-lg ${torchOn ? 'bg-amber-400/80 text-black border-amber-200' : 'bg-black/50 text-white border-white/20'}`}
+          >
+            {torchOn ? <Flashlight size={24} /> : <FlashlightOff size={24} />}
+          </button>
+        )}
+        {zoomRange && (
+          <button
+            onClick={() => setShowZoomSlider(prev => !prev)}
+            className={`backdrop-blur-md text-white p-3 rounded-full border transition-all shadow-lg ${showZoomSlider ? 'bg-emerald-600/60 border-emerald-300' : 'bg-black/50 border-white/20'}`}
+          >
+            <ZoomIn size={24} />
+          </button>
+        )}
+        <label className={`bg-black/50 backdrop-blur-md text-white p-3 rounded-full border border-white/20 active:bg-emerald-600/50 transition-all shadow-lg ${isDecodingPhoto ? 'opacity-50 pointer-events-none' : ''}`}>
+          <ImagePlus size={24} className={isDecodingPhoto ? 'animate-pulse' : ''} />
+          <input type="file" accept="image/*" onChange={handlePhotoSelected} className="hidden" />
+        </label>
+        <label className={`bg-black/50 backdrop-blur-md text-white p-3 rounded-full border border-white/20 active:bg-emerald-600/50 transition-all shadow-lg ${isDecodingPhoto ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Aperture size={24} />
+          <input type="file" accept="image/*" capture="environment" onChange={handlePhotoSelected} className="hidden" />
+        </label>
         {availableCameras.length > 1 && (
           <button
             onClick={handleSwitchCamera}
@@ -331,11 +600,11 @@ export const Scanner = React.memo<ScannerProps>(({ onScan, onError, isPaused })
         <div className="flex flex-col items-center gap-1">
           <div className="flex items-center gap-1 text-[10px] text-white/90 bg-black/60 px-3 py-1 rounded-full backdrop-blur-sm border border-white/10">
             <Scan size={12} className="text-emerald-400" />
-            <span>ITF 스캔 ({resolutionDebug})</span>
+            <span>{t('scanner.badge', { profile: profileLabel, decoder: decoderLabel ? t(decoderLabel) : '', resolution: resolutionDebug })}</span>
           </div>
           {activeCameraLabel && (
             <span className="text-[9px] text-zinc-400 bg-black/40 px-2 py-0.5 rounded text-shadow">
-              {activeCameraLabel}
+              {localizeCameraLabel(activeCameraLabel)}
             </span>
           )}
         </div>
@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { Play, RotateCcw, Volume2, X } from 'lucide-react';
+import {
+  DEFAULT_SETTINGS, RESOLUTIONS, getSettings, resetSettings, subscribeSettings, updateSettings
+} from '../services/settingsService';
+import {
+  CUSTOM_FEEDBACK_PROFILE_ID, FEEDBACK_PROFILES, SCAN_OUTCOME_LABELS, SOUND_LABELS, SPEECH_LABELS, VIBRATION_LABELS
+} from '../services/feedbackProfileService';
+import { REJECTION_MESSAGES } from '../services/validationService';
+import { MANIFEST_MESSAGES } from '../services/manifestService';
+import { DECODER_BACKEND_LABELS } from '../services/decoderBackendService';
+import { CONSENSUS_MODE_LABELS } from '../services/consensusService';
+import { playOutcomeFeedback, playSound, speakMessage } from '../services/audioService';
+import { t } from '../services/i18nService';
+import { LOCALES } from '../locales';
+import {
+  ConsensusMode, DecoderBackendId, Locale, OutcomeFeedback, ResolutionStep, ScanOutcome, SoundId,
+  SpeechMode, VibrationId
+} from '../types';
+
+interface SettingsModalProps {
+  onClose: () => void;
+}
+
+const inputClass = "bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500";
+
+const compactSelectClass = "bg-slate-900 border border-slate-600 rounded-md px-1 py-1 text-xs text-white focus:outline-none focus:border-emerald-500";
+
+// What the overlay would show for each outcome, spoken by the preview button
+const previewMessage = (outcome: ScanOutcome): string => {
+  switch (outcome) {
+    case 'NEW': return t('scan.ok');
+    case 'COUNT': return t('scan.count', { quantity: 2 });
+    case 'DUPLICATE': return t(REJECTION_MESSAGES.DUPLICATE);
+    case 'WRONG_LENGTH': return t(REJECTION_MESSAGES.LENGTH);
+    case 'NOT_ON_MANIFEST': return t(MANIFEST_MESSAGES.UNEXPECTED);
+    case 'INVALID': return t(REJECTION_MESSAGES.CHECK_DIGIT);
+  }
+};
+
+const PREVIEW_CODE = '09501101530003';
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-3">
+    <h4 className="text-xs font-bold text-emerald-400">{title}</h4>
+    {children}
+  </section>
+);
+
+const Row: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <div className="flex items-center justify-between gap-3">
+    <div className="min-w-0">
+      <p className="text-slate-200">{label}</p>
+      {hint && <p className="text-[11px] text-slate-500">{hint}</p>}
+    </div>
+    <div className="shrink-0 flex items-center gap-2">{children}</div>
+  </div>
+);
+
+// Numbers are clamped on input; an empty field keeps the last valid value
+const numberInput = (value: number, min: number, max: number, onChange: (n: number) => void) => (
+  <input
+    type="number"
+    min={min}
+    max={max}
+    value={value}
+    onChange={(e) => {
+      const n = Number(e.target.value);
+      if (e.target.value !== '' && !isNaN(n)) onChange(Math.min(max, Math.max(min, n)));
+    }}
+    className={`${inputClass} w-24 text-right`}
+  />
+);
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState(getSettings);
+  const { consensus } = settings;
+
+  useEffect(() => subscribeSettings(setSettings), []);
+
+  const toggleResolution = (step: ResolutionStep) => {
+    const has = settings.resolutionLadder.includes(step);
+    if (has && settings.resolutionLadder.length === 1) return; // Keep at least one step
+    // Keep the ladder ordered highest first
+    const next = (Object.keys(RESOLUTIONS) as ResolutionStep[])
+      .filter(s => (s === step ? !has : settings.resolutionLadder.includes(s)));
+    updateSettings({ resolutionLadder: next });
+  };
+
+  // Picking a preset replaces every outcome; editing one outcome makes the profile custom
+  const handleFeedbackProfileChange = (id: string) => {
+    const profile = FEEDBACK_PROFILES.find(p => p.id === id);
+    if (profile) updateSettings({ feedbackProfileId: profile.id, feedbackOutcomes: profile.outcomes });
+  };
+
+  const handleOutcomeChange = (outcome: ScanOutcome, patch: Partial<OutcomeFeedback>) => {
+    updateSettings({
+      feedbackProfileId: CUSTOM_FEEDBACK_PROFILE_ID,
+      feedbackOutcomes: { ...settings.feedbackOutcomes, [outcome]: { ...settings.feedbackOutcomes[outcome], ...patch } },
+    });
+  };
+
+  const handleReset = () => {
+    if (!confirm(t('settings.resetConfirm'))) return;
+    resetSettings();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm px-4">
+      <div className="bg-slate-800 rounded-xl w-full max-w-sm p-6 border border-slate-700 shadow-2xl max-h-[90dvh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white">{t('settings.title')}</h3>
+          <button onClick={onClose} className="text-slate-400 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-6 text-sm pr-1">
+          <Row label={t('app.language')}>
+            <select
+              value={settings.locale}
+              onChange={(e) => updateSettings({ locale: e.target.value as Locale })}
+              className={inputClass}
+            >
+              {(Object.keys(LOCALES) as Locale[]).map(locale => (
+                <option key={locale} value={locale}>{LOCALES[locale].label}</option>
+              ))}
+            </select>
+          </Row>
+
+          <Section title={t('settings.scanner')}>
+            <Row label={t('settings.decoder')}>
+              <select
+                value={settings.decoderBackend}
+                onChange={(e) => updateSettings({ decoderBackend: e.target.value as DecoderBackendId })}
+                className={inputClass}
+              >
+                {(Object.keys(DECODER_BACKEND_LABELS) as DecoderBackendId[]).map(id => (
+                  <option key={id} value={id}>{t(DECODER_BACKEND_LABELS[id])}</option>
+                ))}
+              </select>
+            </Row>
+            <Row label={t('settings.autoZoom')} hint={t('settings.autoZoomHint')}>
+              <input
+                type="range"
+                min={1}
+                max={4}
+                step={0.5}
+                value={settings.autoZoom}
+                onChange={(e) => updateSettings({ autoZoom: Number(e.target.value) })}
+                className="w-24 accent-emerald-500"
+              />
+              <span className="w-10 text-right font-mono text-slate-300">{settings.autoZoom.toFixed(1)}x</span>
+            </Row>
+            <Row label={t('settings.rotateRoi')} hint={t('settings.rotateRoiHint')}>
+              <input
+                type="checkbox"
+                checked={settings.rotateRoi}
+                onChange={(e) => updateSettings({ rotateRoi: e.target.checked })}
+                className="w-5 h-5 accent-emerald-500"
+              />
+            </Row>
+            <div>
+              <p className="text-slate-200">{t('settings.resolution')}</p>
+              <p className="text-[11px] text-slate-500 mb-2">{t('settings.appliesOnRestart')}</p>
+              <div className="flex gap-2">
+                {(Object.keys(RESOLUTIONS) as ResolutionStep[]).map(step => (
+                  <label
+                    key={step}
+                    className={`flex-1 text-center py-2 rounded-lg border text-xs cursor-pointer ${settings.resolutionLadder.includes(step) ? 'border-emerald-500 text-emerald-300 bg-emerald-900/30' : 'border-slate-600 text-slate-400'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={settings.resolutionLadder.includes(step)}
+                      onChange={() => toggleResolution(step)}
+                      className="hidden"
+                    />
+                    {RESOLUTIONS[step].label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <Row label={t('settings.consensus')}>
+              <select
+                value={consensus.mode}
+                onChange={(e) => updateSettings({ consensus: { ...consensus, mode: e.target.value as ConsensusMode } })}
+                className={`${inputClass} max-w-[10rem]`}
+              >
+                {(Object.keys(CONSENSUS_MODE_LABELS) as ConsensusMode[]).map(mode => (
+                  <option key={mode} value={mode}>{t(CONSENSUS_MODE_LABELS[mode])}</option>
+                ))}
+              </select>
+            </Row>
+            {consensus.mode !== 'OFF' && (
+              <>
+                <Row label={t('settings.requiredReads')}>
+                  {numberInput(consensus.requiredReads, 2, 10, n => updateSettings({ consensus: { ...consensus, requiredReads: n } }))}
+                </Row>
+                <Row label={t('settings.consensusWindow')}>
+                  {numberInput(consensus.windowMs, 200, 10000, n => updateSettings({ consensus: { ...consensus, windowMs: n } }))}
+                </Row>
+              </>
+            )}
+          </Section>
+
+          <Section title={t('settings.feedback')}>
+            <Row label={t('settings.lockMs')} hint={t('settings.lockMsHint', { value: DEFAULT_SETTINGS.feedbackLockMs })}>
+              {numberInput(settings.feedbackLockMs, 200, 5000, n => updateSettings({ feedbackLockMs: n }))}
+            </Row>
+            <Row label={t('settings.ttsRate')}>
+              <input
+                type="range"
+                min={0.5}
+                max={2}
+                step={0.1}
+                value={settings.ttsRate}
+                onChange={(e) => updateSettings({ ttsRate: Number(e.target.value) })}
+                className="w-24 accent-emerald-500"
+              />
+              <span className="w-8 text-right font-mono text-slate-300">{settings.ttsRate.toFixed(1)}</span>
+              <button onClick={() => speakMessage(t(REJECTION_MESSAGES.DUPLICATE))} className="text-slate-400 p-1">
+                <Volume2 size={16} />
+              </button>
+            </Row>
+            <Row label={t('settings.feedbackProfile')}>
+              <select
+                value={settings.feedbackProfileId}
+                onChange={(e) => handleFeedbackProfileChange(e.target.value)}
+                className={inputClass}
+              >
+                {FEEDBACK_PROFILES.map(p => (
+                  <option key={p.id} value={p.id}>{t(p.name)}</option>
+                ))}
+                {settings.feedbackProfileId === CUSTOM_FEEDBACK_PROFILE_ID && (
+                  <option value={CUSTOM_FEEDBACK_PROFILE_ID}>{t('feedbackProfile.custom')}</option>
+                )}
+              </select>
+            </Row>
+            <Row label={t('settings.volume')}>
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.25}
+                value={settings.feedbackVolume}
+                onChange={(e) => updateSettings({ feedbackVolume: Number(e.target.value) })}
+                onPointerUp={() => playSound('DING_DONG')}
+                className="w-24 accent-emerald-500"
+              />
+              <span className="w-12 text-right font-mono text-slate-300">{Math.round(settings.feedbackVolume * 100)}%</span>
+            </Row>
+            <div className="space-y-2">
+              {(Object.keys(SCAN_OUTCOME_LABELS) as ScanOutcome[]).map(outcome => {
+                const current = settings.feedbackOutcomes[outcome];
+                return (
+                  <div key={outcome} className="bg-slate-900/60 rounded-lg p-2 border border-slate-700">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs text-slate-300">{t(SCAN_OUTCOME_LABELS[outcome])}</span>
+                      <button
+                        onClick={() => playOutcomeFeedback(outcome, previewMessage(outcome), PREVIEW_CODE)}
+                        className="flex items-center gap-1 text-[11px] text-emerald-300 px-1"
+                      >
+                        <Play size={12} /> {t('settings.preview')}
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-1">
+                      <select
+                        value={current.sound}
+                        onChange={(e) => handleOutcomeChange(outcome, { sound: e.target.value as SoundId })}
+                        className={compactSelectClass}
+                      >
+                        {(Object.keys(SOUND_LABELS) as SoundId[]).map(id => (
+                          <option key={id} value={id}>{t(SOUND_LABELS[id])}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={current.vibration}
+                        onChange={(e) => handleOutcomeChange(outcome, { vibration: e.target.value as VibrationId })}
+                        className={compactSelectClass}
+                      >
+                        {(Object.keys(VIBRATION_LABELS) as VibrationId[]).map(id => (
+                          <option key={id} value={id}>{t(VIBRATION_LABELS[id])}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={current.speech}
+                        onChange={(e) => handleOutcomeChange(outcome, { speech: e.target.value as SpeechMode })}
+                        className={compactSelectClass}
+                      >
+                        {(Object.keys(SPEECH_LABELS) as SpeechMode[]).map(id => (
+                          <option key={id} value={id}>{t(SPEECH_LABELS[id])}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Section>
+
+          <Section title={t('settings.validation')}>
+            <Row label={t('settings.throttle')} hint={t('settings.throttleHint', { value: DEFAULT_SETTINGS.sameCodeThrottleMs })}>
+              {numberInput(settings.sameCodeThrottleMs, 0, 10000, n => updateSettings({ sameCodeThrottleMs: n }))}
+            </Row>
+            <Row label={t('settings.checkDigit')} hint={t('settings.checkDigitHint')}>
+              <input
+                type="checkbox"
+                checked={settings.enforceCheckDigit}
+                onChange={(e) => updateSettings({ enforceCheckDigit: e.target.checked })}
+                className="w-5 h-5 accent-emerald-500"
+              />
+            </Row>
+          </Section>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={handleReset}
+            className="flex-1 py-3 rounded-lg bg-slate-700 text-slate-300 font-medium flex items-center justify-center gap-2"
+          >
+            <RotateCcw size={16} /> {t('settings.reset')}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-lg bg-emerald-600 text-white font-bold hover:bg-emerald-500"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
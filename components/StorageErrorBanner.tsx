@@ -0,0 +1,22 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface StorageErrorBannerProps {
+  message: string | null;
+  onDismiss: () => void;
+}
+
+// Persistent banner so a failed save is never missed during a route
+export const StorageErrorBanner: React.FC<StorageErrorBannerProps> = ({ message, onDismiss }) => {
+  if (!message) return null;
+
+  return (
+    <div className="fixed top-0 inset-x-0 z-[60] bg-red-700 text-white text-sm px-4 py-2 flex items-center gap-2 shadow-lg">
+      <AlertTriangle size={16} className="shrink-0" />
+      <span className="flex-1 break-keep">{message}</span>
+      <button onClick={onDismiss} className="p-1 rounded hover:bg-red-600">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { CloudCheck, CloudUpload, CloudAlert } from 'lucide-react';
+import { t } from '../services/i18nService';
+import { MessageKey, SyncStatus } from '../types';
+
+const STATUS_STYLES: Record<SyncStatus, { Icon: typeof CloudCheck; className: string; label: MessageKey }> = {
+  PENDING: { Icon: CloudUpload, className: 'text-amber-400', label: 'sync.PENDING' },
+  SYNCED: { Icon: CloudCheck, className: 'text-emerald-400', label: 'sync.SYNCED' },
+  FAILED: { Icon: CloudAlert, className: 'text-red-400', label: 'sync.FAILED' },
+};
+
+export const SyncStatusIcon: React.FC<{ status?: SyncStatus }> = ({ status }) => {
+  if (!status) return null;
+
+  const { Icon, className, label } = STATUS_STYLES[status];
+  return (
+    <div className={`flex flex-col items-center gap-0.5 ${className}`} title={t(label)}>
+      <Icon size={18} />
+      <span className="text-[9px]">{t(label)}</span>
+    </div>
+  );
+};
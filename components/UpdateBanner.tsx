@@ -0,0 +1,27 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { t } from '../services/i18nService';
+
+interface UpdateBannerProps {
+  visible: boolean;
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+// Offers the new app version; App only shows it while no route is being scanned
+export const UpdateBanner: React.FC<UpdateBannerProps> = ({ visible, onReload, onDismiss }) => {
+  if (!visible) return null;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-[60] bg-emerald-700 text-white text-sm px-4 py-2 pb-[max(0.5rem,env(safe-area-inset-bottom))] flex items-center gap-2 shadow-lg">
+      <RefreshCw size={16} className="shrink-0" />
+      <span className="flex-1 break-keep">{t('update.available')}</span>
+      <button onClick={onReload} className="shrink-0 px-3 py-1 rounded bg-white text-emerald-800 font-bold">
+        {t('update.reload')}
+      </button>
+      <button onClick={onDismiss} className="p-1 rounded hover:bg-emerald-600">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
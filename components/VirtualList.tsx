@@ -0,0 +1,81 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  estimateHeight: (item: T) => number; // Used until the row has been rendered once and measured
+  renderItem: (item: T) => React.ReactNode;
+  className?: string;
+  overscan?: number; // Extra px rendered above and below the viewport
+}
+
+// First index whose row ends below `y` (offsets[i] = top of row i, offsets[n] = total height)
+const findRow = (offsets: number[], y: number) => {
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] > y) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+};
+
+/**
+ * Scroll container that only mounts the rows near the viewport, so a log of
+ * thousands of records stays responsive. Rows may differ in height: each is
+ * measured after it renders and the spacers are corrected on the next pass.
+ */
+export const VirtualList = <T,>({
+  items, getKey, estimateHeight, renderItem, className = '', overscan = 600
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [, setMeasured] = useState(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, i) => {
+    offsets[i + 1] = offsets[i] + (heightsRef.current.get(getKey(item)) ?? estimateHeight(item));
+  });
+  const total = offsets[items.length];
+
+  const start = items.length === 0 ? 0 : findRow(offsets, Math.max(0, scrollTop - overscan));
+  const end = items.length === 0 ? 0 : findRow(offsets, scrollTop + viewportHeight + overscan) + 1;
+
+  // Measure what was rendered; re-render only when a height actually changed
+  useLayoutEffect(() => {
+    let changed = false;
+    for (const row of Array.from(rowsRef.current?.children || []) as HTMLElement[]) {
+      const key = row.dataset.key!;
+      if (heightsRef.current.get(key) !== row.offsetHeight) {
+        heightsRef.current.set(key, row.offsetHeight);
+        changed = true;
+      }
+    }
+    if (changed) setMeasured(n => n + 1);
+  });
+
+  return (
+    <div ref={containerRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-y-auto ${className}`}>
+      <div ref={rowsRef} style={{ paddingTop: offsets[start], paddingBottom: total - offsets[Math.min(end, items.length)] }}>
+        {items.slice(start, end).map(item => {
+          const key = getKey(item);
+          return <div key={key} data-key={key}>{renderItem(item)}</div>;
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import { MessageKey } from '../types';
+
+export const en: Record<MessageKey, string> = {
+  'common.cancel': 'Cancel',
+  'common.confirm': 'OK',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+
+  'app.company': 'PLG Co., Ltd. - 2025',
+  'app.name': 'MOLIT Digital Logistics Pilot',
+  'app.language': 'Language',
+
+  'start.begin': 'Start',
+  'start.viewRecords': 'View records',
+
+  'route.modalTitle': 'Route name',
+  'route.namePlaceholder': 'e.g. Seoul-Gangnam-01',
+  'route.nameRequired': 'Please enter a route name.',
+  'route.profile': 'Barcode rule',
+  'route.manifest': 'Shipment list (optional)',
+  'route.manifestFile': '{name} ({count} codes)',
+  'route.manifestPick': 'Load CSV / text file',
+  'route.manifestEmpty': 'No valid codes found in the list.',
+  'route.countMode': 'Count quantity (rescanning a code adds +1)',
+  'route.duplicateScope': 'Duplicate check scope',
+  'route.start': '({name}) start ▼',
+  'route.end': '({name}) end ▲',
+  'route.endConfirm': 'End scanning and return to the start screen?',
+
+  'header.count': '{count} scans',
+  'header.end': 'End',
+
+  'nav.scan': 'Scan',
+  'nav.list': 'Records',
+  'nav.recent': 'Last',
+
+  'scan.ok': 'OK',
+  'scan.count': '+1\nQuantity {quantity}',
+
+  'list.allRoutes': 'All routes',
+  'list.reconcile': 'Check',
+  'list.retry': 'Resend {count}',
+  'list.pending': 'Queued {count}',
+  'list.syncOff': 'Upload off',
+  'list.empty': 'No scanned records.',
+  'list.manual': 'Manual',
+  'list.deleted': 'Deleted:',
+  'list.rejected': 'Rejected',
+  'list.undo': 'Undo',
+  'list.copy': 'Copy to clipboard',
+  'list.copied': 'Copied to clipboard.',
+  'list.copyFailed': 'Copy failed.',
+  'list.clear': 'Clear',
+  'list.clearConfirm': 'Delete all records?',
+  'list.deleteSyncedConfirm': 'This record is already on the upload server and will stay there. Delete it from this device only?',
+  'list.nothingToExport': 'There are no records to export.',
+
+  'filter.searchPlaceholder': 'Search code (last 4 digits work)',
+  'filter.kind.ALL': 'All types',
+  'filter.kind.CAMERA': 'Camera scans',
+  'filter.kind.MANUAL': 'Manual entries',
+  'filter.kind.INFO': 'Legacy route markers',
+  'filter.showRejected': 'Show rejected scans',
+  'filter.reset': 'Reset',
+  'filter.results': '{count} scans',
+  'filter.noResults': 'No records match the filters.',
+
+  'history.title': 'Route history',
+  'history.empty': 'No saved routes.',
+  'history.active': 'In progress',
+  'history.interrupted': 'Interrupted',
+  'history.scans': 'Scans {count}',
+  'history.rejected': 'Rejected {count}',
+  'history.export': 'Export',
+  'history.deleteConfirm': 'Delete route "{name}" and its {count} records?',
+
+  'dashboard.title': 'Dashboard',
+  'dashboard.byRoute': 'By route',
+  'dashboard.byDay': 'By day',
+  'dashboard.export': 'Save summary',
+  'dashboard.empty': 'No records to summarize.',
+  'dashboard.noRoute': 'No route',
+  'dashboard.scans': 'Scans',
+  'dashboard.scansPerHour': 'Scans per hour',
+  'dashboard.avgInterval': 'Avg. time between scans',
+  'dashboard.rejected': 'Rejected',
+  'dashboard.duplicates': 'Duplicate attempts',
+  'dashboard.decodeLatency': 'Avg. decode time',
+  'dashboard.fps': 'Frames decoded per second',
+  'dashboard.hourly': 'Scans by hour',
+  'dashboard.rejections': 'Rejection reasons',
+  'dashboard.noScans': 'No scans yet.',
+  'dashboard.noRejections': 'No rejected scans.',
+
+  'duration.minutes': '{minutes}m',
+  'duration.hoursMinutes': '{hours}h {minutes}m',
+
+  'record.edit': 'Edit code',
+  'record.manualEntry': 'Enter code',
+
+  'sync.endpointPrompt': 'Upload server URL (leave empty to disable upload)',
+  'sync.PENDING': 'Queued',
+  'sync.SYNCED': 'Sent',
+  'sync.FAILED': 'Failed',
+
+  'update.available': 'A new version is available. Reload to apply it.',
+  'update.reload': 'Update',
+
+  'storage.quota': 'Storage is full. Export your records, then clear them.',
+  'storage.failed': 'Saving the record failed. Please restart the app.',
+
+  'rejection.SYMBOLOGY': 'Wrong barcode type',
+  'rejection.FORMAT': 'Invalid barcode format',
+  'rejection.LENGTH': 'Wrong length',
+  'rejection.PATTERN': 'Code rule mismatch',
+  'rejection.GS1': 'Invalid GS1 data',
+  'rejection.CHECK_DIGIT': 'Check digit error',
+  'rejection.DUPLICATE': 'Duplicate scan',
+
+  'manifest.EXPECTED': 'On the list',
+  'manifest.UNEXPECTED': 'Not on the list',
+  'manifest.ALREADY_SCANNED': 'Already scanned',
+
+  'duplicateScope.ROUTE': 'Within route',
+  'duplicateScope.DAY': 'Same day',
+  'duplicateScope.WINDOW': 'Last N minutes',
+  'duplicateScope.GLOBAL': 'All records',
+
+  'profile.itf14': 'ITF-14 (GTIN-14)',
+  'profile.itf-6-14-16': 'ITF-6 / 14 / 16',
+  'profile.ean13': 'EAN-13',
+  'profile.code128': 'Code 128',
+  'profile.gs1-gtin': 'GS1-128 / DataMatrix (GTIN)',
+  'profile.gs1-full': 'GS1-128 / DataMatrix (all AIs)',
+
+  'gs1.00': 'SSCC',
+  'gs1.01': 'GTIN',
+  'gs1.02': 'Content GTIN',
+  'gs1.10': 'Batch',
+  'gs1.11': 'Production date',
+  'gs1.12': 'Due date',
+  'gs1.13': 'Packaging date',
+  'gs1.15': 'Best before',
+  'gs1.16': 'Sell by',
+  'gs1.17': 'Expiry',
+  'gs1.20': 'Variant',
+  'gs1.21': 'Serial',
+  'gs1.22': 'Consumer variant',
+  'gs1.240': 'Additional item ID',
+  'gs1.241': 'Customer part no.',
+  'gs1.30': 'Quantity',
+  'gs1.400': 'Order no.',
+  'gs1.401': 'Consignment no.',
+  'gs1.403': 'Routing code',
+  'gs1.410': 'Ship-to GLN',
+  'gs1.413': 'Ultimate ship-to GLN',
+  'gs1.414': 'Location GLN',
+  'gs1.420': 'Ship-to postal code',
+  'gs1.90': 'Internal info',
+  'gs1.measure': 'Measure',
+  'gs1.company': 'Company internal',
+
+  'decoder.AUTO': 'Auto',
+  'decoder.NATIVE': 'Built-in (BarcodeDetector)',
+  'decoder.ZXING': 'ZXing',
+
+  'consensus.OFF': 'Off (single read)',
+  'consensus.FRAMES': 'N matching frames in a row',
+  'consensus.POSITIONS': 'N matches at different positions',
+
+  'outcome.NEW': 'New code',
+  'outcome.COUNT': 'Quantity +1',
+  'outcome.DUPLICATE': 'Duplicate',
+  'outcome.WRONG_LENGTH': 'Wrong length',
+  'outcome.NOT_ON_MANIFEST': 'Not on the list',
+  'outcome.INVALID': 'Other error',
+
+  'sound.DING_DONG': 'Ding-dong',
+  'sound.BLIP': 'Blip',
+  'sound.BEEP_BEEP': 'Beep-beep',
+  'sound.BUZZ': 'Buzzer',
+  'sound.TRIPLE_BEEP': 'Triple beep',
+  'sound.NONE': 'No sound',
+
+  'vibration.NONE': 'No vibration',
+  'vibration.SHORT': 'Short',
+  'vibration.DOUBLE': 'Double',
+  'vibration.LONG': 'Long',
+
+  'speech.NONE': 'No voice',
+  'speech.MESSAGE': 'Message',
+  'speech.LAST_4': 'Last 4 digits',
+
+  'feedbackProfile.standard': 'Standard',
+  'feedbackProfile.warehouse': 'Noisy warehouse',
+  'feedbackProfile.announce': 'Read last 4 digits',
+  'feedbackProfile.silent': 'Silent (vibration only)',
+  'feedbackProfile.custom': 'Custom',
+
+  'camera.back': 'Back',
+  'camera.front': 'Front',
+  'camera.camera': 'Camera',
+  'camera.startFailed': 'Cannot start the camera. (permission/hardware)',
+  'camera.error': 'Camera error',
+  'camera.reload': 'Reload',
+
+  'scanner.badge': '{profile} scan · {decoder} ({resolution})',
+  'scanner.misread': 'Possible misreads {count}',
+  'scanner.photoNotFound': 'No barcode found in the photo',
+  'scanner.photoFailed': 'Cannot open the photo',
+
+  'export.title': 'Export records',
+  'export.format': 'Format',
+  'export.routes': 'Routes',
+  'export.allRecords': 'All records',
+  'export.period': 'Period',
+  'export.includeMarkers': 'Include route start/end rows',
+  'export.routeRequired': 'Select at least one route.',
+  'export.includeRejected': 'Include rejected scans',
+  'export.CSV': 'CSV (Excel)',
+  'export.JSON': 'JSON',
+  'export.TXT': 'Text',
+  'export.filtered': 'Only records matching the list search and type filter are saved.',
+
+  'reconcile.title': 'Shipment list check',
+  'reconcile.progress': '{name} · {done}/{total} done',
+  'reconcile.missing': 'Missing',
+  'reconcile.unexpected': 'Not on list',
+  'reconcile.scanned': 'Scanned',
+  'reconcile.empty': 'Nothing here.',
+  'reconcile.export': 'Save check result (CSV)',
+
+  'settings.title': 'Settings',
+  'settings.scanner': 'Scanner',
+  'settings.decoder': 'Decoder',
+  'settings.autoZoom': 'Auto zoom',
+  'settings.autoZoomHint': '1.0 = no zoom · applies when the camera restarts',
+  'settings.rotateRoi': 'Try upright codes first',
+  'settings.rotateRoiHint': 'Codes lying along the guide box are tried first; the other way still reads',
+  'settings.resolution': 'Resolution (highest tried first)',
+  'settings.appliesOnRestart': 'Applies when the camera restarts',
+  'settings.consensus': 'Multi-read confirmation',
+  'settings.requiredReads': 'Required reads',
+  'settings.consensusWindow': 'Confirmation window (ms)',
+  'settings.feedback': 'Feedback',
+  'settings.lockMs': 'Result display time (ms)',
+  'settings.lockMsHint': 'Scanning pauses after each result · default {value}',
+  'settings.ttsRate': 'Speech rate',
+  'settings.feedbackProfile': 'Feedback profile',
+  'settings.volume': 'Volume',
+  'settings.preview': 'Preview',
+  'settings.validation': 'Validation',
+  'settings.throttle': 'Ignore same code for (ms)',
+  'settings.throttleHint': 'Filters repeated reads of one label · default {value}',
+  'settings.checkDigit': 'Check digit validation',
+  'settings.checkDigitHint': 'When off, codes with a wrong check digit are saved too',
+  'settings.reset': 'Defaults',
+  'settings.resetConfirm': 'Reset all settings to their defaults?',
+};
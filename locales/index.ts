@@ -0,0 +1,27 @@
+import { Locale, MessageKey } from '../types';
+import { ko } from './ko';
+import { en } from './en';
+
+// Adding a language: translate every key of ko.ts into a new catalog file,
+// add its code to the Locale type and register it here.
+
+export interface LocaleInfo {
+  label: string;  // Shown in the language picker, in the language itself
+  tag: string;    // BCP 47 tag for date formatting and the speech voice
+  messages: Record<MessageKey, string>;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  ko: { label: '한국어', tag: 'ko-KR', messages: ko },
+  en: { label: 'English', tag: 'en-US', messages: en },
+};
+
+// First run: the device language when we have a catalog for it, otherwise English
+export const detectLocale = (): Locale => {
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language || ''];
+  for (const language of languages) {
+    const code = language.toLowerCase().split('-')[0];
+    if (code in LOCALES) return code as Locale;
+  }
+  return 'en';
+};
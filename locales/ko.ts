@@ -0,0 +1,261 @@
+// Korean UI catalog. Its keys define MessageKey, so every other catalog must
+// translate the same set. "{name}" placeholders are filled in by t().
+
+export const ko = {
+  'common.cancel': '취소',
+  'common.confirm': '확인',
+  'common.close': '닫기',
+  'common.save': '저장',
+  'common.delete': '삭제',
+
+  'app.company': '(주)피엘지 - 2025',
+  'app.name': '국토부 디지털물류 실증 웹앱',
+  'app.language': '언어',
+
+  'start.begin': '시작하기',
+  'start.viewRecords': '기존 기록 보기',
+
+  'route.modalTitle': '라우트명 입력',
+  'route.namePlaceholder': '예: 서울-강남-01',
+  'route.nameRequired': '라우트명을 입력해주세요.',
+  'route.profile': '바코드 규칙',
+  'route.manifest': '출고 목록 (선택)',
+  'route.manifestFile': '{name} ({count}건)',
+  'route.manifestPick': 'CSV / 텍스트 파일 불러오기',
+  'route.manifestEmpty': '목록에서 유효한 코드를 찾지 못했습니다.',
+  'route.countMode': '수량 세기 (같은 코드 재스캔 시 수량 +1)',
+  'route.duplicateScope': '중복 검사 범위',
+  'route.start': '({name}) 시작 ▼',
+  'route.end': '({name}) 종료 ▲',
+  'route.endConfirm': '스캔을 종료하시겠습니까? 메인 화면으로 돌아갑니다.',
+
+  'header.count': '{count} 건',
+  'header.end': '종료',
+
+  'nav.scan': '스캔',
+  'nav.list': '기록',
+  'nav.recent': '최근',
+
+  'scan.ok': '딩동! OK',
+  'scan.count': '+1\n수량 {quantity}',
+
+  'list.allRoutes': '전체 라우트',
+  'list.reconcile': '대조',
+  'list.retry': '재전송 {count}',
+  'list.pending': '대기 {count}',
+  'list.syncOff': '전송 꺼짐',
+  'list.empty': '스캔된 기록이 없습니다.',
+  'list.manual': '수동',
+  'list.deleted': '삭제됨:',
+  'list.rejected': '거부됨',
+  'list.undo': '실행 취소',
+  'list.copy': '클립보드로 복사',
+  'list.copied': '클립보드에 복사되었습니다.',
+  'list.copyFailed': '복사에 실패했습니다.',
+  'list.clear': '초기화',
+  'list.clearConfirm': '기록을 모두 삭제하시겠습니까?',
+  'list.deleteSyncedConfirm': '이미 업로드 서버에 전송된 기록이며 서버에는 그대로 남습니다. 이 기기에서만 삭제하시겠습니까?',
+  'list.nothingToExport': '내보낼 기록이 없습니다.',
+
+  'filter.searchPlaceholder': '코드 검색 (끝 4자리 가능)',
+  'filter.kind.ALL': '전체 종류',
+  'filter.kind.CAMERA': '카메라 스캔',
+  'filter.kind.MANUAL': '수동 입력',
+  'filter.kind.INFO': '구버전 라우트 표시',
+  'filter.showRejected': '거부된 스캔 표시',
+  'filter.reset': '초기화',
+  'filter.results': '{count}건',
+  'filter.noResults': '조건에 맞는 기록이 없습니다.',
+
+  'history.title': '라우트 기록',
+  'history.empty': '저장된 라우트가 없습니다.',
+  'history.active': '진행 중',
+  'history.interrupted': '중단됨',
+  'history.scans': '스캔 {count}',
+  'history.rejected': '거부 {count}',
+  'history.export': '내보내기',
+  'history.deleteConfirm': '"{name}" 라우트와 기록 {count}건을 삭제하시겠습니까?',
+
+  'dashboard.title': '작업 현황',
+  'dashboard.byRoute': '라우트별',
+  'dashboard.byDay': '일별',
+  'dashboard.export': '요약 저장',
+  'dashboard.empty': '집계할 기록이 없습니다.',
+  'dashboard.noRoute': '라우트 없음',
+  'dashboard.scans': '스캔',
+  'dashboard.scansPerHour': '시간당 스캔',
+  'dashboard.avgInterval': '평균 스캔 간격',
+  'dashboard.rejected': '거부',
+  'dashboard.duplicates': '중복 시도',
+  'dashboard.decodeLatency': '평균 인식 시간',
+  'dashboard.fps': '초당 처리 프레임',
+  'dashboard.hourly': '시간대별 스캔',
+  'dashboard.rejections': '거부 사유',
+  'dashboard.noScans': '스캔 기록이 없습니다.',
+  'dashboard.noRejections': '거부된 스캔이 없습니다.',
+
+  'duration.minutes': '{minutes}분',
+  'duration.hoursMinutes': '{hours}시간 {minutes}분',
+
+  'record.edit': '코드 수정',
+  'record.manualEntry': '코드 직접 입력',
+
+  'sync.endpointPrompt': '업로드 서버 주소 (비워두면 전송 안 함)',
+  'sync.PENDING': '전송 대기',
+  'sync.SYNCED': '전송 완료',
+  'sync.FAILED': '전송 실패',
+
+  'update.available': '새 버전이 있습니다. 다시 불러오면 적용됩니다.',
+  'update.reload': '업데이트',
+
+  'storage.quota': '저장 공간이 부족합니다. 기록을 내보낸 뒤 정리해주세요.',
+  'storage.failed': '기록 저장에 실패했습니다. 앱을 다시 시작해주세요.',
+
+  'rejection.SYMBOLOGY': '바코드 종류 오류',
+  'rejection.FORMAT': '바코드 형식 오류',
+  'rejection.LENGTH': '자릿수 오류',
+  'rejection.PATTERN': '코드 규칙 오류',
+  'rejection.GS1': 'GS1 형식 오류',
+  'rejection.CHECK_DIGIT': '체크디지트 오류',
+  'rejection.DUPLICATE': '중복 스캔',
+
+  'manifest.EXPECTED': '목록 확인',
+  'manifest.UNEXPECTED': '목록에 없음',
+  'manifest.ALREADY_SCANNED': '이미 스캔됨',
+
+  'duplicateScope.ROUTE': '라우트 내',
+  'duplicateScope.DAY': '당일',
+  'duplicateScope.WINDOW': '최근 N분',
+  'duplicateScope.GLOBAL': '전체 기록',
+
+  'profile.itf14': 'ITF-14 (GTIN-14)',
+  'profile.itf-6-14-16': 'ITF-6 / 14 / 16',
+  'profile.ean13': 'EAN-13',
+  'profile.code128': 'Code 128',
+  'profile.gs1-gtin': 'GS1-128 / DataMatrix (GTIN)',
+  'profile.gs1-full': 'GS1-128 / DataMatrix (전체)',
+
+  'gs1.00': 'SSCC',
+  'gs1.01': 'GTIN',
+  'gs1.02': '내용물 GTIN',
+  'gs1.10': '배치',
+  'gs1.11': '제조일',
+  'gs1.12': '지급일',
+  'gs1.13': '포장일',
+  'gs1.15': '품질유지기한',
+  'gs1.16': '판매기한',
+  'gs1.17': '유통기한',
+  'gs1.20': '변형',
+  'gs1.21': '시리얼',
+  'gs1.22': '소비자 변형',
+  'gs1.240': '추가 품목 ID',
+  'gs1.241': '고객 부품번호',
+  'gs1.30': '수량',
+  'gs1.400': '주문번호',
+  'gs1.401': '위탁번호',
+  'gs1.403': '경로 코드',
+  'gs1.410': '배송지 GLN',
+  'gs1.413': '최종 배송지 GLN',
+  'gs1.414': '위치 GLN',
+  'gs1.420': '배송지 우편번호',
+  'gs1.90': '내부 정보',
+  'gs1.measure': '측정값',
+  'gs1.company': '사내 정보',
+
+  'decoder.AUTO': '자동',
+  'decoder.NATIVE': '기본 내장 (BarcodeDetector)',
+  'decoder.ZXING': 'ZXing',
+
+  'consensus.OFF': '사용 안 함 (1회 인식)',
+  'consensus.FRAMES': '연속 N회 일치',
+  'consensus.POSITIONS': '서로 다른 위치 N회 일치',
+
+  'outcome.NEW': '새 코드',
+  'outcome.COUNT': '수량 +1',
+  'outcome.DUPLICATE': '중복',
+  'outcome.WRONG_LENGTH': '자릿수 오류',
+  'outcome.NOT_ON_MANIFEST': '목록에 없음',
+  'outcome.INVALID': '기타 오류',
+
+  'sound.DING_DONG': '딩동',
+  'sound.BLIP': '삑',
+  'sound.BEEP_BEEP': '삐삐',
+  'sound.BUZZ': '버저',
+  'sound.TRIPLE_BEEP': '삐삐삐',
+  'sound.NONE': '소리 없음',
+
+  'vibration.NONE': '진동 없음',
+  'vibration.SHORT': '짧게',
+  'vibration.DOUBLE': '두 번',
+  'vibration.LONG': '길게',
+
+  'speech.NONE': '음성 없음',
+  'speech.MESSAGE': '메시지',
+  'speech.LAST_4': '끝 4자리',
+
+  'feedbackProfile.standard': '기본',
+  'feedbackProfile.warehouse': '소음 많은 창고',
+  'feedbackProfile.announce': '끝 4자리 읽기',
+  'feedbackProfile.silent': '무음 (진동만)',
+  'feedbackProfile.custom': '사용자 지정',
+
+  'camera.back': '후면',
+  'camera.front': '전면',
+  'camera.camera': '카메라',
+  'camera.startFailed': '카메라를 실행할 수 없습니다. (권한/하드웨어)',
+  'camera.error': '카메라 오류',
+  'camera.reload': '새로고침',
+
+  'scanner.badge': '{profile} 스캔 · {decoder} ({resolution})',
+  'scanner.misread': '오독 의심 {count}',
+  'scanner.photoNotFound': '사진에서 바코드를 찾지 못했습니다',
+  'scanner.photoFailed': '사진을 불러올 수 없습니다',
+
+  'export.title': '기록 내보내기',
+  'export.format': '형식',
+  'export.routes': '라우트',
+  'export.allRecords': '전체 기록',
+  'export.period': '기간',
+  'export.includeMarkers': '라우트 시작/종료 행 포함',
+  'export.routeRequired': '라우트를 하나 이상 선택해주세요.',
+  'export.includeRejected': '거부된 스캔 포함',
+  'export.CSV': 'CSV (엑셀)',
+  'export.JSON': 'JSON',
+  'export.TXT': '텍스트',
+  'export.filtered': '목록의 검색·종류 필터가 적용된 기록만 저장됩니다.',
+
+  'reconcile.title': '출고 목록 대조',
+  'reconcile.progress': '{name} · {done}/{total} 완료',
+  'reconcile.missing': '미스캔',
+  'reconcile.unexpected': '목록 외',
+  'reconcile.scanned': '스캔 완료',
+  'reconcile.empty': '해당 항목이 없습니다.',
+  'reconcile.export': '대조 결과 저장 (CSV)',
+
+  'settings.title': '설정',
+  'settings.scanner': '스캐너',
+  'settings.decoder': '디코더',
+  'settings.autoZoom': '자동 줌',
+  'settings.autoZoomHint': '1.0 = 줌 없음 · 카메라 재시작 시 적용',
+  'settings.rotateRoi': '세로 방향 우선 인식',
+  'settings.rotateRoiHint': '가이드 박스를 따라 세로로 놓인 바코드를 먼저 시도 · 반대 방향도 읽음',
+  'settings.resolution': '해상도 (높은 순서로 시도)',
+  'settings.appliesOnRestart': '카메라 재시작 시 적용',
+  'settings.consensus': '다중 인식 확인',
+  'settings.requiredReads': '필요 인식 횟수',
+  'settings.consensusWindow': '확인 시간 창 (ms)',
+  'settings.feedback': '피드백',
+  'settings.lockMs': '결과 표시 시간 (ms)',
+  'settings.lockMsHint': '스캔 후 일시 정지 · 기본 {value}',
+  'settings.ttsRate': '음성 속도',
+  'settings.feedbackProfile': '피드백 프로필',
+  'settings.volume': '음량',
+  'settings.preview': '미리듣기',
+  'settings.validation': '검증',
+  'settings.throttle': '같은 코드 무시 시간 (ms)',
+  'settings.throttleHint': '연속 인식 흔들림 방지 · 기본 {value}',
+  'settings.checkDigit': '체크디지트 검사',
+  'settings.checkDigitHint': '끄면 체크디지트가 틀린 코드도 저장됩니다',
+  'settings.reset': '기본값',
+  'settings.resetConfirm': '모든 설정을 기본값으로 되돌리시겠습니까?',
+};
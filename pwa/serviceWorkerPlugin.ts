@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// Files copied from public/ that the app needs offline
+const PUBLIC_ASSETS = ['manifest.json', 'icon-192.png', 'icon-512.png'];
+
+/**
+ * Emits /sw.js at build time with every bundle file in its precache list.
+ * The cache name is a hash of the bundle's contents, so each build that
+ * changes the app installs as a new service worker version.
+ */
+export const serviceWorkerPlugin = (): Plugin => ({
+  name: 'scanner-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(file => file !== 'index.html' && !file.endsWith('.map'));
+    const urls = ['/index.html', ...[...files, ...PUBLIC_ASSETS].map(file => `/${file}`)];
+    const hash = createHash('sha256');
+    for (const output of Object.values(bundle)) hash.update(output.type === 'chunk' ? output.code : output.source);
+    const version = hash.digest('hex').slice(0, 12);
+
+    const template = readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template
+        .replace('__VERSION__', version)
+        .replace('__PRECACHE__', JSON.stringify(urls, null, 2)),
+    });
+  },
+});
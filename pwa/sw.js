@@ -0,0 +1,38 @@
+// Service worker template. The build (pwa/serviceWorkerPlugin.ts) fills in the
+// version and precache placeholders below and emits the result as /sw.js.
+
+const CACHE_PREFIX = 'scanner-shell-';
+const CACHE_NAME = CACHE_PREFIX + '__VERSION__';
+const PRECACHE_URLS = __PRECACHE__;
+
+// No skipWaiting here: a new version waits until the app asks for it (see pwaService),
+// so a route being scanned never switches code underneath the operator.
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Cache first for the app shell; uploads (POST) and other origins go straight to the network
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match('/index.html').then(cached => cached || fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
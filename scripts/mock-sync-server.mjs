@@ -0,0 +1,62 @@
+// Minimal upload endpoint for testing the sync queue locally (see README).
+// Usage: npm run mock-sync
+// Env: PORT (default 3001), FAIL_RATE (0..1, share of requests answered with 503),
+//      TLS_CERT / TLS_KEY (PEM files; serve HTTPS, which an HTTPS-served app needs)
+import fs from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+
+const PORT = Number(process.env.PORT || 3001);
+const FAIL_RATE = Number(process.env.FAIL_RATE || 0);
+const TLS = process.env.TLS_CERT && process.env.TLS_KEY
+  ? { cert: fs.readFileSync(process.env.TLS_CERT), key: fs.readFileSync(process.env.TLS_KEY) }
+  : null;
+
+// Upserts by id, so re-sent batches never create duplicates
+const records = new Map();
+const routes = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body ? JSON.stringify(body) : undefined);
+};
+
+const handle = (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  // Opening the URL in the phone's browser is how a self-signed certificate gets accepted
+  if (req.method === 'GET' && req.url === '/sync') return send(res, 200, { ok: true, records: records.size });
+  if (req.method !== 'POST' || req.url !== '/sync') return send(res, 404, { error: 'not found' });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    if (Math.random() < FAIL_RATE) return send(res, 503, { error: 'simulated failure' });
+
+    let batch;
+    try {
+      batch = JSON.parse(raw);
+    } catch {
+      return send(res, 400, { error: 'invalid json' });
+    }
+
+    let fresh = 0;
+    for (const route of batch.routes || []) routes.set(route.id, route);
+    for (const record of batch.records || []) {
+      if (!records.has(record.id)) fresh++;
+      records.set(record.id, record);
+    }
+
+    console.log(`batch: ${batch.routes?.length || 0} routes, ${batch.records?.length || 0} records (${fresh} new) -> total ${records.size}`);
+    send(res, 200, { ok: true, received: batch.records?.length || 0 });
+  });
+};
+
+const server = TLS ? https.createServer(TLS, handle) : http.createServer(handle);
+server.listen(PORT, () => {
+  console.log(`Mock sync server on ${TLS ? 'https' : 'http'}://0.0.0.0:${PORT}/sync (FAIL_RATE=${FAIL_RATE})`);
+});
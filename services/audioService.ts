@@ -1,3 +1,8 @@
+import { ScanOutcome, SoundId, VibrationId } from '../types';
+import { getSettings } from './settingsService';
+import { VIBRATION_PATTERNS } from './feedbackProfileService';
+import { getLocaleTag } from './i18nService';
+
 // Simple synthesizer using Web Audio API to avoid external asset dependencies
 const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
 let audioCtx: AudioContext | null = null;
@@ -9,77 +14,108 @@ const getContext = () => {
   return audioCtx;
 };
 
-export const playSuccessSound = () => {
-  try {
-    const ctx = getContext();
-    if (ctx.state === 'suspended') ctx.resume();
+// One enveloped oscillator note; `gain` is the peak level before the volume setting
+const tone = (
+  ctx: AudioContext,
+  level: number,
+  type: OscillatorType,
+  frequency: number,
+  start: number,
+  duration: number,
+  gain: number,
+  endFrequency?: number
+) => {
+  const osc = ctx.createOscillator();
+  const gainNode = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(frequency, start);
+  if (endFrequency !== undefined) osc.frequency.linearRampToValueAtTime(endFrequency, start + duration);
+  gainNode.gain.setValueAtTime(gain * level, start);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  osc.connect(gainNode);
+  gainNode.connect(ctx.destination);
+  osc.start(start);
+  osc.stop(start + duration);
+};
 
+const SOUNDS: Record<Exclude<SoundId, 'NONE'>, (ctx: AudioContext, level: number) => void> = {
+  // "Ding" (high) then "Dong" (lower)
+  DING_DONG: (ctx, level) => {
     const t = ctx.currentTime;
-    
-    // First Note (High) - "Ding"
-    const osc1 = ctx.createOscillator();
-    const gain1 = ctx.createGain();
-    osc1.type = 'sine';
-    osc1.frequency.setValueAtTime(800, t); 
-    gain1.gain.setValueAtTime(0.1, t);
-    gain1.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
-    osc1.connect(gain1);
-    gain1.connect(ctx.destination);
-    osc1.start(t);
-    osc1.stop(t + 0.6);
-
-    // Second Note (Lower) - "Dong"
-    const osc2 = ctx.createOscillator();
-    const gain2 = ctx.createGain();
-    osc2.type = 'sine';
-    osc2.frequency.setValueAtTime(600, t + 0.2); 
-    gain2.gain.setValueAtTime(0.1, t + 0.2);
-    gain2.gain.exponentialRampToValueAtTime(0.001, t + 1.2);
-    osc2.connect(gain2);
-    gain2.connect(ctx.destination);
-    osc2.start(t + 0.2);
-    osc2.stop(t + 1.2);
-
-  } catch (e) {
-    console.error("Audio playback failed", e);
-  }
+    tone(ctx, level, 'sine', 800, t, 0.6, 0.1);
+    tone(ctx, level, 'sine', 600, t + 0.2, 1.0, 0.1);
+  },
+  // One short rising blip, distinct from the new-code ding-dong
+  BLIP: (ctx, level) => {
+    tone(ctx, level, 'triangle', 900, ctx.currentTime, 0.25, 0.12, 1300);
+  },
+  // Two short square beeps - "Beep-Beep"
+  BEEP_BEEP: (ctx, level) => {
+    const t = ctx.currentTime;
+    [0, 0.18].forEach(offset => tone(ctx, level, 'square', 520, t + offset, 0.14, 0.08));
+  },
+  // Low falling sawtooth buzz
+  BUZZ: (ctx, level) => {
+    tone(ctx, level, 'sawtooth', 150, ctx.currentTime, 0.3, 0.2, 80);
+  },
+  // Three short high beeps, for operators who find the buzzer too easy to miss
+  TRIPLE_BEEP: (ctx, level) => {
+    const t = ctx.currentTime;
+    [0, 0.12, 0.24].forEach(offset => tone(ctx, level, 'square', 1400, t + offset, 0.09, 0.1));
+  },
 };
 
-export const playErrorSound = () => {
+export const playSound = (id: SoundId, volume = getSettings().feedbackVolume) => {
+  if (id === 'NONE' || volume <= 0) return;
   try {
     const ctx = getContext();
     if (ctx.state === 'suspended') ctx.resume();
-
-    const oscillator = ctx.createOscillator();
-    const gainNode = ctx.createGain();
-
-    oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
-
-    oscillator.type = 'sawtooth';
-    oscillator.frequency.setValueAtTime(150, ctx.currentTime);
-    oscillator.frequency.linearRampToValueAtTime(80, ctx.currentTime + 0.3);
-
-    gainNode.gain.setValueAtTime(0.2, ctx.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.3);
-
-    oscillator.start(ctx.currentTime);
-    oscillator.stop(ctx.currentTime + 0.3);
+    SOUNDS[id](ctx, volume);
   } catch (e) {
     console.error("Audio playback failed", e);
   }
 };
 
+export const vibrate = (id: VibrationId) => {
+  const pattern = VIBRATION_PATTERNS[id];
+  if (pattern.length === 0 || !navigator.vibrate) return;
+  navigator.vibrate(pattern);
+};
+
 export const speakMessage = (text: string) => {
   if (!window.speechSynthesis) return;
-  
+
   // Cancel previous speech to avoid queueing
   window.speechSynthesis.cancel();
 
+  // Voice of the UI language; without an installed voice the browser picks one by `lang`
+  const lang = getLocaleTag();
   const utterance = new SpeechSynthesisUtterance(text);
-  utterance.lang = 'ko-KR'; // Korean
-  utterance.rate = 1.2; // Slightly faster
+  utterance.lang = lang;
+  const voice = window.speechSynthesis.getVoices().find(v => v.lang.replace('_', '-') === lang);
+  if (voice) utterance.voice = voice;
+  utterance.rate = getSettings().ttsRate;
   utterance.pitch = 1.0;
-  
+
   window.speechSynthesis.speak(utterance);
 };
+
+// "09501101530003" -> "0 0 0 3": digits spaced so TTS reads them one by one
+const lastFourDigits = (code: string) => code.replace(/\D/g, '').slice(-4).split('').join(' ');
+
+/**
+ * Plays the sound, vibration and speech the active feedback profile assigns
+ * to `outcome`. `message` is what the overlay shows; `code` is only needed
+ * for the "last 4 digits" announcement.
+ */
+export const playOutcomeFeedback = (outcome: ScanOutcome, message: string, code?: string) => {
+  const { sound, vibration, speech } = getSettings().feedbackOutcomes[outcome];
+  playSound(sound);
+  vibrate(vibration);
+
+  if (speech === 'MESSAGE') {
+    speakMessage(message.replace(/\n/g, ' '));
+  } else if (speech === 'LAST_4' && code) {
+    speakMessage(lastFourDigits(code));
+  }
+};
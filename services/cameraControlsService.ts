@@ -0,0 +1,26 @@
+import { CameraControls } from '../types';
+
+// Torch / zoom chosen by the operator, per camera deviceId (like scanner_last_device_id)
+
+const CAMERA_CONTROLS_KEY = 'scanner_camera_controls';
+
+const DEFAULT_CAMERA_CONTROLS: CameraControls = { torch: false };
+
+const loadAll = (): Record<string, CameraControls> => {
+  try {
+    const saved = localStorage.getItem(CAMERA_CONTROLS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to parse camera controls", e);
+    return {};
+  }
+};
+
+export const loadCameraControls = (deviceId: string): CameraControls =>
+  ({ ...DEFAULT_CAMERA_CONTROLS, ...loadAll()[deviceId] });
+
+export const saveCameraControls = (deviceId: string, patch: Partial<CameraControls>) => {
+  const all = loadAll();
+  all[deviceId] = { ...DEFAULT_CAMERA_CONTROLS, ...all[deviceId], ...patch };
+  localStorage.setItem(CAMERA_CONTROLS_KEY, JSON.stringify(all));
+};
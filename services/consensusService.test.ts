@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { ConsensusSettings } from '../types';
+import {
+  advanceConsensus, bandRoi, ConsensusRead, ConsensusState, DEFAULT_CONSENSUS_SETTINGS, expireConsensus,
+  isConsensusEnabled, positionBandCount,
+} from './consensusService';
+
+const CODE = '15400141288763';
+// A truncated read of the same label
+const SHORT_READ = '154001412887';
+
+const settings = (patch: Partial<ConsensusSettings>): ConsensusSettings => ({ ...DEFAULT_CONSENSUS_SETTINGS, ...patch });
+const read = (time: number, text = CODE, band?: number): ConsensusRead => ({ text, format: 'ITF', time, band });
+
+// Feeds reads one by one, returning every step
+const feed = (reads: ConsensusRead[], config: ConsensusSettings) => {
+  let state: ConsensusState = [];
+  return reads.map(r => {
+    const step = advanceConsensus(state, r, config);
+    state = step.state;
+    return step;
+  });
+};
+
+describe('advanceConsensus', () => {
+  it('confirms every read straight away when off or when one read is enough', () => {
+    expect(isConsensusEnabled(settings({ mode: 'FRAMES', requiredReads: 1 }))).toBe(false);
+    for (const config of [settings({ mode: 'OFF' }), settings({ mode: 'FRAMES', requiredReads: 1 })]) {
+      expect(advanceConsensus([], read(0), config)).toEqual({ state: [], confirmed: read(0), misread: false });
+    }
+  });
+
+  it('confirms on the required number of agreeing frames, then starts over', () => {
+    const steps = feed([read(0), read(100), read(200), read(300)], settings({ mode: 'FRAMES' }));
+    expect(steps.map(s => s.confirmed?.time ?? null)).toEqual([null, null, 200, null]);
+    expect(steps[2].state).toEqual([]);
+    expect(steps[3].state).toEqual([read(300)]);
+  });
+
+  it('flags a disagreeing read as a misread and makes it the new candidate', () => {
+    const steps = feed([read(0), read(100, SHORT_READ), read(200), read(300)], settings({ mode: 'FRAMES' }));
+    expect(steps.map(s => s.misread)).toEqual([false, true, true, false]);
+    expect(steps[3].state).toEqual([read(200), read(300)]);
+    expect(steps.every(s => s.confirmed === null)).toBe(true);
+  });
+
+  it('forgets reads older than the window', () => {
+    const config = settings({ mode: 'FRAMES', windowMs: 1000 });
+    const steps = feed([read(0), read(500), read(1400), read(1450)], config);
+    expect(steps[2].state).toEqual([read(500), read(1400)]);
+    expect(steps[3].confirmed).toEqual(read(1450));
+
+    // A different code after the window expired is not a misread
+    expect(feed([read(0), read(1001, SHORT_READ)], config)[1].misread).toBe(false);
+  });
+
+  it('only counts one read per band in POSITIONS mode', () => {
+    const steps = feed([read(0, CODE, 0), read(100, CODE, 0), read(200, CODE, 1), read(300, CODE, 1), read(400, CODE, 2)],
+      settings({ mode: 'POSITIONS' }));
+    expect(steps.map(s => s.state.length)).toEqual([1, 1, 2, 2, 0]);
+    expect(steps[4].confirmed).toEqual(read(400, CODE, 2));
+  });
+});
+
+describe('expireConsensus', () => {
+  it('keeps the same state object while nothing expired', () => {
+    const state = [read(0), read(100)];
+    expect(expireConsensus(state, 1500, DEFAULT_CONSENSUS_SETTINGS)).toBe(state);
+    expect(expireConsensus(state, 1501, DEFAULT_CONSENSUS_SETTINGS)).toEqual([read(100)]);
+  });
+});
+
+describe('positionBandCount', () => {
+  it('uses one band per required read, at least two, in POSITIONS mode only', () => {
+    expect(positionBandCount(settings({ mode: 'FRAMES', requiredReads: 3 }))).toBe(1);
+    expect(positionBandCount(settings({ mode: 'POSITIONS', requiredReads: 3 }))).toBe(3);
+    expect(positionBandCount(settings({ mode: 'POSITIONS', requiredReads: 1 }))).toBe(2);
+  });
+});
+
+describe('bandRoi', () => {
+  // Portrait guide box crop: bands step across its width
+  const roi = { x: 100, y: 50, width: 200, height: 400 };
+
+  it('leaves the ROI whole with a single band', () => {
+    expect(bandRoi(roi, 0, 1)).toBe(roi);
+  });
+
+  it('spreads half-width bands from one edge to the other', () => {
+    expect([0, 1, 2].map(band => bandRoi(roi, band, 3))).toEqual([
+      { x: 100, y: 50, width: 100, height: 400 },
+      { x: 150, y: 50, width: 100, height: 400 },
+      { x: 200, y: 50, width: 100, height: 400 },
+    ]);
+  });
+
+  it('cuts across the height of a landscape ROI', () => {
+    expect(bandRoi({ x: 0, y: 0, width: 400, height: 200 }, 1, 2)).toEqual({ x: 0, y: 100, width: 400, height: 100 });
+  });
+});
@@ -0,0 +1,97 @@
+import { ConsensusMode, ConsensusSettings, MessageKey } from '../types';
+import { Rect } from './decoderService';
+
+// ITF has no start/stop guard against short reads: one frame can yield a
+// truncated code that still passes the check digit. Consensus holds a read
+// back until enough frames agree on it.
+
+export const DEFAULT_CONSENSUS_SETTINGS: ConsensusSettings = {
+  mode: 'OFF',
+  requiredReads: 3,
+  windowMs: 1500,
+};
+
+export const CONSENSUS_MODE_LABELS: Record<ConsensusMode, MessageKey> = {
+  OFF: 'consensus.OFF',
+  FRAMES: 'consensus.FRAMES',
+  POSITIONS: 'consensus.POSITIONS',
+};
+
+// Share of the ROI's short side each POSITIONS band covers
+const BAND_SIZE = 0.5;
+
+export interface ConsensusRead {
+  text: string;
+  format: string;
+  time: number;
+  band?: number; // POSITIONS mode: band of the ROI the frame was decoded in
+}
+
+// Agreeing reads of the current candidate, oldest first (empty: no candidate)
+export type ConsensusState = ConsensusRead[];
+
+export interface ConsensusStep {
+  state: ConsensusState;
+  confirmed: ConsensusRead | null; // Set once the candidate reached requiredReads
+  misread: boolean;                // The read disagreed with a live candidate
+}
+
+export const isConsensusEnabled = (settings: ConsensusSettings) =>
+  settings.mode !== 'OFF' && settings.requiredReads > 1;
+
+// POSITIONS mode needs one band per required read
+export const positionBandCount = (settings: ConsensusSettings) =>
+  settings.mode === 'POSITIONS' ? Math.max(2, settings.requiredReads) : 1;
+
+/**
+ * Band `band` of `count` across the ROI's short side, i.e. a different set of
+ * scanlines through a code lying along the guide box. The Scanner cycles the
+ * band every frame, so agreeing reads come from different parts of the label
+ * even when the phone is held perfectly still.
+ */
+export const bandRoi = (roi: Rect, band: number, count: number): Rect => {
+  if (count <= 1) return roi;
+  const alongX = roi.width <= roi.height; // Bands are cut across the short side
+  const side = alongX ? roi.width : roi.height;
+  const size = Math.round(side * BAND_SIZE);
+  const offset = Math.round(((side - size) * band) / (count - 1));
+  return alongX
+    ? { x: roi.x + offset, y: roi.y, width: size, height: roi.height }
+    : { x: roi.x, y: roi.y + offset, width: roi.width, height: size };
+};
+
+const isNewBand = (read: ConsensusRead, counted: ConsensusState): boolean =>
+  read.band === undefined || counted.every(r => r.band !== read.band);
+
+// Drops reads that fell out of the window (also used on frames where nothing was read)
+export const expireConsensus = (state: ConsensusState, now: number, settings: ConsensusSettings): ConsensusState => {
+  const live = state.filter(r => now - r.time <= settings.windowMs);
+  return live.length === state.length ? state : live;
+};
+
+/**
+ * Feeds one decoded frame into the consensus. A read that disagrees with the
+ * current candidate is flagged as a suspected misread and starts a new
+ * candidate; with consensus off every read is confirmed straight away.
+ */
+export const advanceConsensus = (
+  state: ConsensusState,
+  read: ConsensusRead,
+  settings: ConsensusSettings
+): ConsensusStep => {
+  if (!isConsensusEnabled(settings)) return { state: [], confirmed: read, misread: false };
+
+  const live = expireConsensus(state, read.time, settings);
+  if (live.length > 0 && live[0].text !== read.text) {
+    return { state: [read], confirmed: null, misread: true };
+  }
+
+  if (settings.mode === 'POSITIONS' && !isNewBand(read, live)) {
+    return { state: live, confirmed: null, misread: false };
+  }
+
+  const next = [...live, read];
+  return next.length >= settings.requiredReads
+    ? { state: [], confirmed: read, misread: false }
+    : { state: next, confirmed: null, misread: false };
+};
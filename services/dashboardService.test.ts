@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Route, ScannedRecord } from '../types';
+import { buildDashboard, IDLE_GAP_MS } from './dashboardService';
+import { countCases, summarizeRoutes } from './routeService';
+
+const MINUTE = 60 * 1000;
+const start = new Date(2025, 0, 6, 9, 0).getTime();
+const route: Route = { id: 'r1', name: 'Dock 3', startedAt: start, endedAt: start + 30 * MINUTE, status: 'COMPLETED' };
+
+const scan = (id: string, minute: number, quantity?: number): ScannedRecord =>
+  ({ id, type: 'SCAN', code: `C${id}`, timestamp: start + minute * MINUTE, routeId: 'r1', quantity });
+
+const records: ScannedRecord[] = [
+  scan('1', 0),
+  scan('2', 10, 4), // Count mode: three more cases of this code
+  scan('3', 20),
+  { id: '4', type: 'REJECTED', code: 'X', timestamp: start + 5 * MINUTE, routeId: 'r1', rejection: 'DUPLICATE' },
+];
+
+describe('countCases', () => {
+  it('sums count-mode quantities of SCAN records only', () => {
+    expect(countCases(records)).toBe(6);
+    expect(countCases([])).toBe(0);
+  });
+});
+
+describe('buildDashboard', () => {
+  it('counts cases, not records, in totals, throughput and the hourly chart', () => {
+    const [metrics] = buildDashboard(records, [route], [], 'ROUTE');
+    expect(metrics.scanCount).toBe(6);
+    // 20 working minutes for 5 intervals between 6 cases
+    expect(metrics.avgIntervalMs).toBe(4 * MINUTE);
+    expect(metrics.scansPerHour).toBeCloseTo(15);
+    expect(metrics.hourly[9]).toBe(6);
+    expect(metrics.rejectedCount).toBe(1);
+    expect(metrics.duplicateAttempts).toBe(1);
+  });
+
+  it('leaves idle gaps out of the working time', () => {
+    const [metrics] = buildDashboard([scan('1', 0), scan('2', 1), scan('3', 1 + IDLE_GAP_MS / MINUTE + 1)], [route], [], 'ROUTE');
+    expect(metrics.avgIntervalMs).toBe(MINUTE);
+  });
+});
+
+describe('summarizeRoutes', () => {
+  it('reports records and cases separately', () => {
+    const [summary] = summarizeRoutes([route], records);
+    expect(summary).toMatchObject({ scanCount: 3, caseCount: 6, rejectedCount: 1, durationMs: 30 * MINUTE });
+  });
+});
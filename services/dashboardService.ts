@@ -0,0 +1,152 @@
+import { DecoderTelemetry, MessageKey, RejectionReason, Route, ScannedRecord } from '../types';
+import { escapeCsv } from './exportService';
+import { formatDate, t } from './i18nService';
+import { toDayKey } from './telemetryService';
+import { countCases } from './routeService';
+
+// Productivity / quality figures for the dashboard, computed from the stored
+// records and the live-decoder telemetry. Pure functions apart from labels.
+
+export type DashboardGrouping = 'ROUTE' | 'DAY';
+
+export const DASHBOARD_GROUPING_LABELS: Record<DashboardGrouping, MessageKey> = {
+  ROUTE: 'dashboard.byRoute',
+  DAY: 'dashboard.byDay',
+};
+
+// Longer pauses between two scans (breaks, driving) are not working time
+export const IDLE_GAP_MS = 10 * 60 * 1000;
+
+export interface DashboardMetrics {
+  key: string;                 // Route id ('' = route-less records) or 'YYYY-MM-DD'
+  label: string;
+  startedAt: number;           // First activity, for sorting
+  scanCount: number;           // Accepted cases (count-mode quantities included)
+  scansPerHour: number | null; // Cases over working time, i.e. idle gaps left out
+  avgIntervalMs: number | null;
+  rejectedCount: number;
+  rejections: Partial<Record<RejectionReason, number>>;
+  duplicateAttempts: number;   // Reads refused as duplicates
+  hourly: number[];            // Accepted cases per local hour of day (24 entries)
+  decodeLatencyMs: number | null; // Average time the live decoder spent on a frame
+  framesPerSecond: number | null; // Frames the live decoder got through while scanning
+}
+
+interface Group {
+  key: string;
+  label: string;
+  records: ScannedRecord[];
+  telemetry: DecoderTelemetry[];
+}
+
+const summarize = ({ key, label, records, telemetry }: Group): DashboardMetrics => {
+  const scans = records.filter(r => r.type === 'SCAN');
+  const rejected = records.filter(r => r.type === 'REJECTED');
+
+  // Gaps between consecutive scans of the same route
+  const byRoute = new Map<string, number[]>();
+  for (const scan of scans) {
+    const routeKey = scan.routeId || '';
+    if (!byRoute.has(routeKey)) byRoute.set(routeKey, []);
+    byRoute.get(routeKey)!.push(scan.timestamp);
+  }
+  // A count-mode record's extra cases were scanned in the same working time
+  let workingMs = 0;
+  let intervals = countCases(scans) - scans.length;
+  for (const times of byRoute.values()) {
+    times.sort((a, b) => a - b);
+    for (let i = 1; i < times.length; i++) {
+      const gap = times[i] - times[i - 1];
+      if (gap > IDLE_GAP_MS) continue;
+      workingMs += gap;
+      intervals += 1;
+    }
+  }
+
+  const rejections: Partial<Record<RejectionReason, number>> = {};
+  for (const record of rejected) {
+    if (record.rejection) rejections[record.rejection] = (rejections[record.rejection] || 0) + 1;
+  }
+
+  const hourly = new Array<number>(24).fill(0);
+  for (const scan of scans) hourly[new Date(scan.timestamp).getHours()] += scan.quantity || 1;
+
+  const frames = telemetry.reduce((sum, b) => sum + b.frames, 0);
+  const latencyTotalMs = telemetry.reduce((sum, b) => sum + b.latencyTotalMs, 0);
+  const activeMs = telemetry.reduce((sum, b) => sum + b.activeMs, 0);
+
+  return {
+    key,
+    label,
+    startedAt: records.reduce((min, r) => Math.min(min, r.timestamp), Infinity),
+    scanCount: countCases(scans),
+    scansPerHour: workingMs > 0 ? (intervals / workingMs) * 3600000 : null,
+    avgIntervalMs: intervals > 0 ? workingMs / intervals : null,
+    rejectedCount: rejected.length,
+    rejections,
+    duplicateAttempts: rejections.DUPLICATE || 0,
+    hourly,
+    decodeLatencyMs: frames > 0 ? latencyTotalMs / frames : null,
+    framesPerSecond: activeMs > 0 ? (frames / activeMs) * 1000 : null,
+  };
+};
+
+/**
+ * One entry per route or per day that has records, newest first. Legacy INFO
+ * records are left out; route-less records share one group when grouping by route.
+ */
+export const buildDashboard = (
+  logs: ScannedRecord[],
+  routes: Route[],
+  telemetry: DecoderTelemetry[],
+  grouping: DashboardGrouping
+): DashboardMetrics[] => {
+  const routeById = new Map(routes.map(r => [r.id, r]));
+  const groups = new Map<string, Group>();
+  const groupFor = (key: string, label: () => string) => {
+    if (!groups.has(key)) groups.set(key, { key, label: label(), records: [], telemetry: [] });
+    return groups.get(key)!;
+  };
+  const routeLabel = (routeId: string) => routeById.get(routeId)?.name || t('dashboard.noRoute');
+
+  for (const log of logs) {
+    if (log.type === 'INFO') continue;
+    const group = grouping === 'ROUTE'
+      ? groupFor(log.routeId || '', () => routeLabel(log.routeId || ''))
+      : groupFor(toDayKey(log.timestamp), () => formatDate(log.timestamp));
+    group.records.push(log);
+  }
+
+  // Telemetry only joins groups that have records
+  for (const bucket of telemetry) {
+    groups.get(grouping === 'ROUTE' ? bucket.routeId || '' : bucket.day)?.telemetry.push(bucket);
+  }
+
+  return [...groups.values()]
+    .map(summarize)
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
+
+const REJECTION_COLUMNS: RejectionReason[] = ['SYMBOLOGY', 'FORMAT', 'LENGTH', 'PATTERN', 'GS1', 'CHECK_DIGIT', 'DUPLICATE'];
+
+const round = (value: number | null, digits: number) => (value === null ? '' : value.toFixed(digits));
+
+// Summary sheet of the dashboard, one row per group
+export const dashboardToCsv = (metrics: DashboardMetrics[], grouping: DashboardGrouping): string =>
+  [
+    [
+      grouping === 'ROUTE' ? 'route' : 'day', 'scans', 'scans_per_hour', 'avg_interval_s', 'rejected',
+      ...REJECTION_COLUMNS.map(reason => `rejected_${reason.toLowerCase()}`),
+      'decode_latency_ms', 'frames_per_second',
+    ].join(','),
+    ...metrics.map(m => [
+      escapeCsv(grouping === 'ROUTE' ? m.label : m.key),
+      m.scanCount,
+      round(m.scansPerHour, 1),
+      round(m.avgIntervalMs === null ? null : m.avgIntervalMs / 1000, 1),
+      m.rejectedCount,
+      ...REJECTION_COLUMNS.map(reason => m.rejections[reason] || 0),
+      round(m.decodeLatencyMs, 1),
+      round(m.framesPerSecond, 1),
+    ].join(',')),
+  ].join('\r\n');
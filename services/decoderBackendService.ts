@@ -0,0 +1,178 @@
+import { BarcodeFormat, BrowserMultiFormatReader } from '@zxing/library';
+import { DecoderBackendId, MessageKey } from '../types';
+import { buildDecodeHints, decodeCanvas, drawVideoRoi, mapRoiPointsToVideo, Rect } from './decoderService';
+import { createWorkerDecoder, FramePoint } from './decoderWorkerClient';
+
+// Live camera decoders behind one interface: the browser's native
+// BarcodeDetector where it supports the profile's formats, ZXing otherwise.
+
+export const DECODER_BACKEND_LABELS: Record<DecoderBackendId, MessageKey> = {
+  AUTO: 'decoder.AUTO',
+  NATIVE: 'decoder.NATIVE',
+  ZXING: 'decoder.ZXING',
+};
+
+export interface DecodeResult {
+  text: string;
+  format: string;        // ZXing BarcodeFormat name, whichever backend read it
+  points: FramePoint[];  // Corner / result points in video frame pixels
+  durationMs: number;    // Frame grab + decode
+}
+
+export interface FrameDecoder {
+  id: Exclude<DecoderBackendId, 'AUTO'>;
+  label: MessageKey; // Shown in the scanner badge
+  // Resolves null when the ROI holds no readable code
+  decodeFrame: (video: HTMLVideoElement, roi: Rect, rotate: boolean) => Promise<DecodeResult | null>;
+  dispose: () => void;
+}
+
+// --- ZXing (worker, falling back to the main thread) ---
+
+const createZxingDecoder = (formats: string[], assumeGs1: boolean): FrameDecoder => {
+  const reader = new BrowserMultiFormatReader(buildDecodeHints(formats, assumeGs1));
+  let canvas: HTMLCanvasElement | null = null;
+
+  let worker = createWorkerDecoder((err) => {
+    console.warn("Decoder worker failed, decoding on main thread", err);
+    worker = null;
+  });
+  worker?.configure(formats, assumeGs1);
+
+  return {
+    id: 'ZXING',
+    label: DECODER_BACKEND_LABELS.ZXING,
+    decodeFrame: async (video, roi, rotate) => {
+      const started = performance.now();
+
+      if (worker) {
+        const bitmap = await createImageBitmap(video, roi.x, roi.y, roi.width, roi.height);
+        try {
+          const result = worker ? await worker.decode(bitmap, rotate) : null;
+          if (!result) return null;
+          const { rotated, ...read } = result;
+          return { ...read, points: mapRoiPointsToVideo(result.points, roi, rotated), durationMs: performance.now() - started };
+        } finally {
+          // No-op once transferred to the worker; frees the frame when the worker died or refused it
+          bitmap.close();
+        }
+      }
+
+      canvas = canvas || document.createElement('canvas');
+      drawVideoRoi(video, roi, canvas, rotate);
+      try {
+        const result = decodeCanvas(reader, canvas);
+        return {
+          text: result.getText(),
+          format: BarcodeFormat[result.getBarcodeFormat()],
+          points: mapRoiPointsToVideo(result.getResultPoints().map(p => ({ x: p.getX(), y: p.getY() })), roi, rotate),
+          durationMs: performance.now() - started,
+        };
+      } catch (e) {
+        return null; // No code found
+      }
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
+
+// --- Native BarcodeDetector (Shape Detection API, not in TS's DOM lib yet) ---
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+  cornerPoints: FramePoint[];
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: ImageBitmapSource) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorClass {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+// ZXing BarcodeFormat name -> BarcodeDetector format
+const NATIVE_FORMATS: Record<string, string> = {
+  AZTEC: 'aztec',
+  CODABAR: 'codabar',
+  CODE_39: 'code_39',
+  CODE_93: 'code_93',
+  CODE_128: 'code_128',
+  DATA_MATRIX: 'data_matrix',
+  EAN_8: 'ean_8',
+  EAN_13: 'ean_13',
+  ITF: 'itf',
+  PDF_417: 'pdf417',
+  QR_CODE: 'qr_code',
+  UPC_A: 'upc_a',
+  UPC_E: 'upc_e',
+};
+
+const fromNativeFormat = (format: string): string =>
+  Object.keys(NATIVE_FORMATS).find(name => NATIVE_FORMATS[name] === format) || format.toUpperCase();
+
+// null when the browser has no BarcodeDetector or it lacks one of the formats
+const createNativeDecoder = async (formats: string[]): Promise<FrameDecoder | null> => {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+  if (!Detector) return null;
+
+  const wanted = formats.map(name => NATIVE_FORMATS[name]);
+  if (wanted.length === 0 || wanted.some(f => !f)) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    if (!wanted.every(f => supported.includes(f))) return null;
+  } catch (e) {
+    return null;
+  }
+
+  const detector = new Detector({ formats: wanted });
+  let canvas: HTMLCanvasElement | null = null;
+
+  return {
+    id: 'NATIVE',
+    label: DECODER_BACKEND_LABELS.NATIVE,
+    // Detects in any orientation, so the crop is never rotated
+    decodeFrame: async (video, roi) => {
+      const started = performance.now();
+      canvas = canvas || document.createElement('canvas');
+      drawVideoRoi(video, roi, canvas, false);
+
+      const [barcode] = await detector.detect(canvas);
+      if (!barcode) return null;
+      return {
+        text: barcode.rawValue,
+        format: fromNativeFormat(barcode.format),
+        points: mapRoiPointsToVideo(barcode.cornerPoints, roi, false),
+        durationMs: performance.now() - started,
+      };
+    },
+    dispose: () => { },
+  };
+};
+
+/**
+ * Builds the live decoder for a profile. AUTO and NATIVE try BarcodeDetector
+ * first; when it is missing or can't read every format ZXing is used, so the
+ * scanner always gets a working decoder. GS1 profiles always use ZXing:
+ * BarcodeDetector doesn't report the ]C1 / ]d2 identifier nor guarantee the
+ * GS separators that end variable-length AIs.
+ */
+export const createFrameDecoder = async (
+  backend: DecoderBackendId,
+  formats: string[],
+  assumeGs1: boolean
+): Promise<FrameDecoder> => {
+  if (assumeGs1 && backend === 'NATIVE') console.warn("BarcodeDetector can't read GS1 element strings - using ZXing");
+  if (backend !== 'ZXING' && !assumeGs1) {
+    const native = await createNativeDecoder(formats);
+    if (native) return native;
+    if (backend === 'NATIVE') console.warn("BarcodeDetector unavailable for", formats, "- using ZXing");
+  }
+  return createZxingDecoder(formats, assumeGs1);
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { MultiFormatReader } from '@zxing/library';
+import {
+  BitmapDecoder, buildDecodeHints, decodeImageData, decodePixels, GUIDE_BOX, mapContainerPointToVideo,
+  mapGuideBoxToVideo, mapRoiPointsToVideo, PixelImage,
+} from './decoderService';
+
+// --- Fixtures: ITF-14 labels rendered in memory ---
+
+const ITF_CODE = '15400141288763';
+const NARROW = 2;
+const WIDE = 5;
+const QUIET = 20 * NARROW;
+const BAR_HEIGHT = 40;
+
+// Narrow (n) / wide (w) elements per digit
+const ITF_DIGITS = ['nnwwn', 'wnnnw', 'nwnnw', 'wwnnn', 'nnwnw', 'wnwnn', 'nwwnn', 'nnnww', 'wnnwn', 'nwnwn'];
+
+// Element widths alternating bar, space, bar... (start with a bar)
+const itfWidths = (digits: string): number[] => {
+  const widths = [NARROW, NARROW, NARROW, NARROW]; // Start pattern
+  for (let i = 0; i < digits.length; i += 2) {
+    const bars = ITF_DIGITS[Number(digits[i])];
+    const spaces = ITF_DIGITS[Number(digits[i + 1])];
+    for (let k = 0; k < 5; k++) widths.push(bars[k] === 'w' ? WIDE : NARROW, spaces[k] === 'w' ? WIDE : NARROW);
+  }
+  widths.push(WIDE, NARROW, NARROW); // Stop pattern
+  return widths;
+};
+
+// One row of the label: true where ink is
+const itfRow = (digits: string): boolean[] => {
+  const row: boolean[] = Array(QUIET).fill(false);
+  itfWidths(digits).forEach((width, i) => row.push(...Array(width).fill(i % 2 === 0)));
+  return row.concat(Array(QUIET).fill(false));
+};
+
+const toImage = (width: number, height: number, isInk: (x: number, y: number) => boolean, inverted = false): PixelImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = isInk(x, y) !== inverted ? 0 : 255;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+const row = itfRow(ITF_CODE);
+// Vertical bars, the way the label is printed
+const upright = (inverted = false) => toImage(row.length, BAR_HEIGHT, x => row[x], inverted);
+// The same label lying along a portrait frame: bars run horizontally, code reads top to bottom
+const sideways = () => toImage(BAR_HEIGHT, row.length, (_, y) => row[y]);
+
+const createReader = (): BitmapDecoder => {
+  const reader = new MultiFormatReader();
+  reader.setHints(buildDecodeHints(['ITF'], false));
+  return { decodeBitmap: bitmap => reader.decodeWithState(bitmap) };
+};
+
+describe('decodeImageData', () => {
+  it('reads an upright label', () => {
+    expect(decodeImageData(createReader(), upright())).toEqual({
+      text: ITF_CODE, format: 'ITF', rotation: 0, inverted: false,
+    });
+  });
+
+  it('turns a sideways label by 90°', () => {
+    expect(decodeImageData(createReader(), sideways())).toMatchObject({ text: ITF_CODE, rotation: 90 });
+  });
+
+  it('falls back to the inverted image for white-on-black labels', () => {
+    expect(decodeImageData(createReader(), upright(true))).toMatchObject({ text: ITF_CODE, inverted: true });
+  });
+
+  it('returns null when there is no code', () => {
+    expect(decodeImageData(createReader(), toImage(120, 40, () => false))).toBeNull();
+  });
+});
+
+describe('decodePixels', () => {
+  it('tries the requested orientation first and reports the one that read', () => {
+    expect(decodePixels(createReader(), sideways(), true)?.rotated).toBe(true);
+    expect(decodePixels(createReader(), upright(), false)?.rotated).toBe(false);
+  });
+
+  it('falls back to the other orientation', () => {
+    const decoded = decodePixels(createReader(), upright(), true);
+    expect(decoded?.result.getText()).toBe(ITF_CODE);
+    expect(decoded?.rotated).toBe(false);
+  });
+
+  it('does not try the inverted image', () => {
+    expect(decodePixels(createReader(), upright(true), false)).toBeNull();
+  });
+});
+
+describe('mapRoiPointsToVideo', () => {
+  it('offsets points of an unrotated crop', () => {
+    const roi = { x: 100, y: 50, width: 200, height: 300 };
+    expect(mapRoiPointsToVideo([{ x: 0, y: 0 }, { x: 10, y: 20 }], roi, false)).toEqual([
+      { x: 100, y: 50 },
+      { x: 110, y: 70 },
+    ]);
+  });
+
+  it('puts points read from a turned crop back on the sideways label', () => {
+    const roi = { x: 300, y: 80, width: BAR_HEIGHT, height: row.length };
+    const decoded = decodePixels(createReader(), sideways(), true)!;
+    const points = decoded.result.getResultPoints().map(p => ({ x: p.getX(), y: p.getY() }));
+    expect(points.length).toBeGreaterThan(0);
+
+    // Result points sit on the scanned row, between the quiet zones of the label
+    for (const point of mapRoiPointsToVideo(points, roi, true)) {
+      expect(point.x).toBeGreaterThanOrEqual(roi.x);
+      expect(point.x).toBeLessThan(roi.x + roi.width);
+      expect(point.y).toBeGreaterThanOrEqual(roi.y + QUIET - NARROW);
+      expect(point.y).toBeLessThanOrEqual(roi.y + row.length - QUIET + NARROW);
+    }
+  });
+});
+
+describe('mapGuideBoxToVideo', () => {
+  // Portrait container over a landscape stream: object-cover crops the sides
+  const container = { width: 400, height: 600 };
+
+  it('maps the centred guide box into the cropped frame', () => {
+    expect(mapGuideBoxToVideo(container, { width: 800, height: 600 }, GUIDE_BOX)).toEqual({
+      x: 330, y: 180, width: 140, height: 240,
+    });
+  });
+
+  it('scales to the stream resolution and grows the box by the margin', () => {
+    expect(mapGuideBoxToVideo(container, { width: 1600, height: 1200 }, GUIDE_BOX, 0.1)).toEqual({
+      x: 632, y: 312, width: 336, height: 576,
+    });
+  });
+
+  it('stays inside the frame when the box is larger than the video', () => {
+    expect(mapGuideBoxToVideo(container, { width: 800, height: 600 }, { width: 400, height: 800 })).toEqual({
+      x: 200, y: 0, width: 400, height: 600,
+    });
+  });
+});
+
+describe('mapContainerPointToVideo', () => {
+  it('maps a tap to its position in the frame, clamped to the frame', () => {
+    const video = { width: 800, height: 600 };
+    expect(mapContainerPointToVideo({ width: 400, height: 600 }, video, { x: 200, y: 300 })).toEqual({ x: 0.5, y: 0.5 });
+    expect(mapContainerPointToVideo({ width: 400, height: 600 }, video, { x: 0, y: 0 })).toEqual({ x: 0.25, y: 0 });
+    expect(mapContainerPointToVideo({ width: 400, height: 600 }, video, { x: 200, y: 900 })).toEqual({ x: 0.5, y: 1 });
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  BarcodeFormat, BinaryBitmap, DecodeHintType, HybridBinarizer, HTMLCanvasElementLuminanceSource,
+  LuminanceSource, Result, RGBLuminanceSource
+} from '@zxing/library';
+
+// ZXing configuration shared by the live camera loop and still-image decoding.
+// decodeImageData only needs pixel data, so the same code path can run in
+// Node against a folder of label photos (regression suite on a headless box).
+
+export const buildDecodeHints = (formats: string[], assumeGs1: boolean) => {
+  const possibleFormats = formats
+    .map(name => BarcodeFormat[name as keyof typeof BarcodeFormat])
+    .filter(f => f !== undefined);
+
+  const hints = new Map<DecodeHintType, any>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, possibleFormats.length > 0 ? possibleFormats : [BarcodeFormat.ITF]);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+  if (assumeGs1) hints.set(DecodeHintType.ASSUME_GS1, true);
+  return hints;
+};
+
+// Anything that decodes a BinaryBitmap with preset hints (BrowserMultiFormatReader does)
+export interface BitmapDecoder {
+  decodeBitmap(bitmap: BinaryBitmap): Result;
+}
+
+export interface PixelImage {
+  data: Uint8ClampedArray; // RGBA, 4 bytes per pixel (ImageData layout)
+  width: number;
+  height: number;
+}
+
+export interface DecodedImage {
+  text: string;
+  format: string;   // ZXing BarcodeFormat name
+  rotation: number; // Degrees clockwise the image had to be turned
+  inverted: boolean;
+}
+
+const toLuminance = ({ data, width, height }: PixelImage): Uint8ClampedArray => {
+  const lum = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < lum.length; i++, p += 4) {
+    // Same green-favouring average as RGBLuminanceSource
+    lum[i] = (data[p] + 2 * data[p + 1] + data[p + 2]) >> 2;
+  }
+  return lum;
+};
+
+// RGBLuminanceSource cannot rotate, so turn the luminance plane 90° clockwise ourselves
+const rotate90 = (lum: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(lum.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      out[x * height + (height - 1 - y)] = lum[y * width + x];
+    }
+  }
+  return out;
+};
+
+const tryDecode = (reader: BitmapDecoder, source: LuminanceSource): Result | null => {
+  try {
+    return reader.decodeBitmap(new BinaryBitmap(new HybridBinarizer(source)));
+  } catch (e) {
+    return null; // NotFound / Checksum / Format: try the next variant
+  }
+};
+
+/**
+ * Decodes a still image, trying 0° and 90° (TRY_HARDER already reads 1D rows
+ * in both directions, covering 180° / 270°) and then the inverted image for
+ * white-on-black labels. Returns null when nothing was found.
+ */
+export const decodeImageData = (reader: BitmapDecoder, image: PixelImage): DecodedImage | null => {
+  const upright = toLuminance(image);
+  const variants = [
+    { rotation: 0, lum: upright, width: image.width, height: image.height },
+    { rotation: 90, lum: rotate90(upright, image.width, image.height), width: image.height, height: image.width },
+  ];
+
+  for (const inverted of [false, true]) {
+    for (const { rotation, lum, width, height } of variants) {
+      const base: LuminanceSource = new RGBLuminanceSource(lum, width, height);
+      const result = tryDecode(reader, inverted ? base.invert() : base);
+      if (result) {
+        return { text: result.getText(), format: BarcodeFormat[result.getBarcodeFormat()], rotation, inverted };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Live pipeline off the main thread: decodes an RGBA frame turned 90° when
+ * `rotate`, then in the other orientation if that found nothing (ZXing's own
+ * TRY_HARDER rotation needs a rotatable source, which RGBLuminanceSource is
+ * not). No inversion pass. `rotated` tells which orientation read the code.
+ */
+export const decodePixels = (
+  reader: BitmapDecoder,
+  image: PixelImage,
+  rotate: boolean
+): { result: Result; rotated: boolean } | null => {
+  const lum = toLuminance(image);
+  for (const rotated of [rotate, !rotate]) {
+    const result = rotated
+      ? tryDecode(reader, new RGBLuminanceSource(rotate90(lum, image.width, image.height), image.height, image.width))
+      : tryDecode(reader, new RGBLuminanceSource(lum, image.width, image.height));
+    if (result) return { result, rotated };
+  }
+  return null;
+};
+
+// Photos straight off a phone are 12MP+; larger than this only slows decoding down
+const MAX_IMAGE_SIDE = 2000;
+
+// Browser only: loads an image file (EXIF orientation applied) into RGBA pixels
+export const loadImageFile = async (file: Blob): Promise<PixelImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' } as ImageBitmapOptions);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// --- Region of interest (live camera) ---
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect extends Size {
+  x: number;
+  y: number;
+}
+
+// On-screen aiming box (CSS px). Scanner renders it from this, so the crop can't drift from the UI.
+export const GUIDE_BOX: Size = { width: 140, height: 240 };
+
+// Extra slack around the guide box, as a fraction of its size
+export const GUIDE_BOX_MARGIN = 0.1;
+
+/**
+ * Maps a guide box centred in the on-screen container to source pixels of a
+ * video shown with `object-fit: cover`. `margin` grows the box on each side
+ * (as a fraction of its size) to tolerate imprecise aiming.
+ */
+export const mapGuideBoxToVideo = (container: Size, video: Size, box: Size, margin = 0): Rect => {
+  // object-cover: scale up until both sides cover the container, crop the overflow equally
+  const scale = Math.max(container.width / video.width, container.height / video.height);
+  const offsetX = (container.width - video.width * scale) / 2;
+  const offsetY = (container.height - video.height * scale) / 2;
+
+  const boxWidth = box.width * (1 + 2 * margin);
+  const boxHeight = box.height * (1 + 2 * margin);
+  const boxX = (container.width - boxWidth) / 2;
+  const boxY = (container.height - boxHeight) / 2;
+
+  const x = Math.max(0, Math.floor((boxX - offsetX) / scale));
+  const y = Math.max(0, Math.floor((boxY - offsetY) / scale));
+  return {
+    x,
+    y,
+    width: Math.min(video.width - x, Math.ceil(boxWidth / scale)),
+    height: Math.min(video.height - y, Math.ceil(boxHeight / scale)),
+  };
+};
+
+// Inverse of the object-cover mapping for one point: container px -> frame position in 0..1
+export const mapContainerPointToVideo = (container: Size, video: Size, point: { x: number; y: number }) => {
+  const scale = Math.max(container.width / video.width, container.height / video.height);
+  const offsetX = (container.width - video.width * scale) / 2;
+  const offsetY = (container.height - video.height * scale) / 2;
+  const clamp = (n: number) => Math.min(1, Math.max(0, n));
+  return {
+    x: clamp((point.x - offsetX) / scale / video.width),
+    y: clamp((point.y - offsetY) / scale / video.height),
+  };
+};
+
+/**
+ * Copies the ROI of the current video frame onto `canvas`. With `rotate` the
+ * crop is turned 90° clockwise so a barcode lying along the portrait guide box
+ * ends up with vertical bars, which is what the 1D row scanners expect.
+ */
+export const drawVideoRoi = (video: HTMLVideoElement, roi: Rect, canvas: HTMLCanvasElement, rotate: boolean) => {
+  const width = rotate ? roi.height : roi.width;
+  const height = rotate ? roi.width : roi.height;
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (rotate) {
+    ctx.translate(width, 0);
+    ctx.rotate(Math.PI / 2);
+  }
+  ctx.drawImage(video, roi.x, roi.y, roi.width, roi.height, 0, 0, roi.width, roi.height);
+};
+
+// Points found in a drawVideoRoi crop back to video frame pixels
+export const mapRoiPointsToVideo = (points: { x: number; y: number }[], roi: Rect, rotate: boolean) =>
+  points.map(({ x, y }) => rotate
+    ? { x: roi.x + y, y: roi.y + roi.height - 1 - x }
+    : { x: roi.x + x, y: roi.y + y });
+
+// Throws ZXing's NotFoundException (like BrowserCodeReader.decode) when nothing is found
+export const decodeCanvas = (reader: BitmapDecoder, canvas: HTMLCanvasElement): Result =>
+  reader.decodeBitmap(new BinaryBitmap(new HybridBinarizer(new HTMLCanvasElementLuminanceSource(canvas))));
@@ -0,0 +1,48 @@
+import { BarcodeFormat, MultiFormatReader } from '@zxing/library';
+import { BitmapDecoder, buildDecodeHints, decodePixels, PixelImage } from './decoderService';
+import type { DecoderWorkerRequest, DecoderWorkerResponse } from './decoderWorkerClient';
+
+// Dedicated worker for the live camera loop: receives guide-box crops as
+// ImageBitmaps and answers each one with a result (or null). Started through
+// createWorkerDecoder, never imported directly.
+
+const reader = new MultiFormatReader();
+const decoder: BitmapDecoder = { decodeBitmap: bitmap => reader.decodeWithState(bitmap) };
+
+let canvas: OffscreenCanvas | null = null;
+
+const readPixels = (bitmap: ImageBitmap): PixelImage => {
+  const { width, height } = bitmap;
+  if (!canvas) canvas = new OffscreenCanvas(width, height);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height);
+};
+
+const reply = (response: DecoderWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (e: MessageEvent<DecoderWorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'config':
+      reader.setHints(buildDecodeHints(message.formats, message.assumeGs1));
+      break;
+    case 'frame': {
+      const decoded = decodePixels(decoder, readPixels(message.bitmap), message.rotate);
+      const result = decoded?.result;
+      reply({
+        type: 'result',
+        id: message.id,
+        text: result ? result.getText() : null,
+        format: result ? BarcodeFormat[result.getBarcodeFormat()] : null,
+        points: result ? result.getResultPoints().map(p => ({ x: p.getX(), y: p.getY() })) : [],
+        rotated: decoded ? decoded.rotated : message.rotate,
+      });
+      break;
+    }
+  }
+};
@@ -0,0 +1,95 @@
+// Main-thread side of the decoder worker. Kept apart from decoderService so
+// the worker bundle (which imports decoderService) doesn't reference itself.
+
+export type DecoderWorkerRequest =
+  | { type: 'config'; formats: string[]; assumeGs1: boolean }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap; rotate: boolean };
+
+export interface DecoderWorkerResponse {
+  type: 'result';
+  id: number;
+  text: string | null;
+  format: string | null; // ZXing BarcodeFormat name
+  points: FramePoint[];   // Result points in the (rotated) bitmap
+  rotated: boolean;       // Orientation the code was read in (may differ from the requested one)
+}
+
+export interface FramePoint {
+  x: number;
+  y: number;
+}
+
+export interface FrameResult {
+  text: string;
+  format: string;
+  points: FramePoint[];
+  rotated: boolean;
+}
+
+export interface WorkerDecoder {
+  configure: (formats: string[], assumeGs1: boolean) => void;
+  // Transfers the bitmap to the worker; resolves null when nothing was found
+  decode: (bitmap: ImageBitmap, rotate: boolean) => Promise<FrameResult | null>;
+  terminate: () => void;
+}
+
+export const isWorkerDecodingSupported = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/**
+ * Starts the decoder worker, or returns null where workers / OffscreenCanvas
+ * are unavailable. `onFail` fires once if the worker can't load or crashes;
+ * the caller should drop it and decode on the main thread instead.
+ */
+export const createWorkerDecoder = (onFail: (error: unknown) => void): WorkerDecoder | null => {
+  if (!isWorkerDecodingSupported()) return null;
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./decoderWorker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    return null;
+  }
+
+  let nextId = 0;
+  const pending = new Map<number, (result: FrameResult | null) => void>();
+
+  const settleAll = () => {
+    pending.forEach(resolve => resolve(null));
+    pending.clear();
+  };
+
+  worker.onmessage = (e: MessageEvent<DecoderWorkerResponse>) => {
+    const { id, text, format, points, rotated } = e.data;
+    const resolve = pending.get(id);
+    if (!resolve) return; // Superseded by a config change
+    pending.delete(id);
+    resolve(text !== null ? { text, format: format || '', points, rotated } : null);
+  };
+
+  worker.onerror = (e) => {
+    e.preventDefault();
+    worker.terminate();
+    settleAll();
+    onFail(e.error || e.message);
+  };
+
+  const post = (request: DecoderWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  return {
+    configure: (formats, assumeGs1) => {
+      settleAll(); // Results for frames decoded with the old symbologies are dropped
+      post({ type: 'config', formats, assumeGs1 });
+    },
+    decode: (bitmap, rotate) =>
+      new Promise(resolve => {
+        const id = ++nextId;
+        pending.set(id, resolve);
+        post({ type: 'frame', id, bitmap, rotate }, [bitmap]);
+      }),
+    terminate: () => {
+      worker.terminate();
+      settleAll();
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DuplicateSettings, ScannedRecord } from '../types';
+import {
+  buildDuplicateIndex, DEFAULT_DUPLICATE_SETTINGS, isDuplicate, loadDuplicateSettings, saveDuplicateSettings,
+} from './duplicateService';
+
+const MINUTE = 60 * 1000;
+const CODE = '15400141288763';
+const morning = new Date(2025, 0, 6, 9, 0).getTime();
+const midnight = new Date(2025, 0, 7, 0, 0).getTime();
+
+const scan = (timestamp: number, routeId = 'r1', patch: Partial<ScannedRecord> = {}): ScannedRecord =>
+  ({ id: `${routeId}-${timestamp}`, type: 'SCAN', code: CODE, timestamp, routeId, ...patch });
+
+const settings = (patch: Partial<DuplicateSettings>): DuplicateSettings => ({ ...DEFAULT_DUPLICATE_SETTINGS, ...patch });
+
+describe('buildDuplicateIndex', () => {
+  it('keeps the latest accepted scan per code', () => {
+    const index = buildDuplicateIndex(
+      [scan(morning + MINUTE), scan(morning), scan(morning + 2 * MINUTE, 'r1', { type: 'REJECTED' })],
+      settings({ scope: 'GLOBAL' }),
+      'r1'
+    );
+    expect(index.get(CODE)).toBe(morning + MINUTE);
+  });
+
+  it('only indexes the active route for ROUTE scope', () => {
+    const logs = [scan(morning, 'r1'), scan(morning, 'r2', { code: '10012345678902' })];
+    expect([...buildDuplicateIndex(logs, settings({ scope: 'ROUTE' }), 'r1').keys()]).toEqual([CODE]);
+    expect(buildDuplicateIndex(logs, settings({ scope: 'ROUTE' }), null).size).toBe(0);
+  });
+});
+
+describe('isDuplicate', () => {
+  const index = buildDuplicateIndex([scan(morning)], DEFAULT_DUPLICATE_SETTINGS, null);
+
+  it('never flags an unseen code', () => {
+    expect(isDuplicate(index, '10012345678902', settings({ scope: 'GLOBAL' }), morning)).toBe(false);
+  });
+
+  it('flags any earlier scan for GLOBAL and ROUTE scope', () => {
+    expect(isDuplicate(index, CODE, settings({ scope: 'GLOBAL' }), morning + 365 * 24 * 60 * MINUTE)).toBe(true);
+    expect(isDuplicate(index, CODE, settings({ scope: 'ROUTE' }), morning + MINUTE)).toBe(true);
+  });
+
+  it('resets DAY scope at local midnight', () => {
+    const late = buildDuplicateIndex([scan(midnight - 1)], DEFAULT_DUPLICATE_SETTINGS, null);
+    expect(isDuplicate(late, CODE, settings({ scope: 'DAY' }), midnight - 1)).toBe(true);
+    expect(isDuplicate(late, CODE, settings({ scope: 'DAY' }), midnight)).toBe(false);
+    expect(isDuplicate(buildDuplicateIndex([scan(midnight)], DEFAULT_DUPLICATE_SETTINGS, null), CODE, settings({ scope: 'DAY' }), midnight)).toBe(true);
+  });
+
+  it('lets a code through once the WINDOW has fully passed', () => {
+    const window = settings({ scope: 'WINDOW', windowMinutes: 30 });
+    expect(isDuplicate(index, CODE, window, morning + 30 * MINUTE - 1)).toBe(true);
+    expect(isDuplicate(index, CODE, window, morning + 30 * MINUTE)).toBe(false);
+  });
+});
+
+describe('duplicate settings', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips through storage and fills in missing fields', () => {
+    expect(loadDuplicateSettings()).toEqual(DEFAULT_DUPLICATE_SETTINGS);
+    saveDuplicateSettings(settings({ scope: 'WINDOW', windowMinutes: 5 }));
+    expect(loadDuplicateSettings()).toEqual({ scope: 'WINDOW', windowMinutes: 5 });
+
+    localStorage.setItem('scanner_duplicate_settings', JSON.stringify({ scope: 'DAY' }));
+    expect(loadDuplicateSettings()).toEqual({ scope: 'DAY', windowMinutes: 60 });
+  });
+});
@@ -0,0 +1,77 @@
+import { DuplicateScope, DuplicateSettings, MessageKey, ScannedRecord } from '../types';
+
+const DUPLICATE_SETTINGS_KEY = 'scanner_duplicate_settings';
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+  scope: 'GLOBAL',
+  windowMinutes: 60,
+};
+
+export const DUPLICATE_SCOPE_LABELS: Record<DuplicateScope, MessageKey> = {
+  ROUTE: 'duplicateScope.ROUTE',
+  DAY: 'duplicateScope.DAY',
+  WINDOW: 'duplicateScope.WINDOW',
+  GLOBAL: 'duplicateScope.GLOBAL',
+};
+
+// code -> timestamp of the latest accepted scan that is relevant to the scope
+export type DuplicateIndex = Map<string, number>;
+
+export const loadDuplicateSettings = (): DuplicateSettings => {
+  try {
+    const saved = localStorage.getItem(DUPLICATE_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_DUPLICATE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_DUPLICATE_SETTINGS;
+  } catch (e) {
+    console.error("Failed to parse duplicate settings", e);
+    return DEFAULT_DUPLICATE_SETTINGS;
+  }
+};
+
+export const saveDuplicateSettings = (settings: DuplicateSettings) => {
+  localStorage.setItem(DUPLICATE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * Builds the duplicate index from stored records. For ROUTE scope only the
+ * active route's scans count; time-based scopes keep every code and are
+ * filtered by timestamp at lookup time so the index never goes stale.
+ */
+export const buildDuplicateIndex = (
+  logs: ScannedRecord[],
+  settings: DuplicateSettings,
+  activeRouteId: string | null
+): DuplicateIndex => {
+  const index: DuplicateIndex = new Map();
+  for (const log of logs) {
+    if (log.type !== 'SCAN') continue;
+    if (settings.scope === 'ROUTE' && (!activeRouteId || log.routeId !== activeRouteId)) continue;
+    const prev = index.get(log.code);
+    if (prev === undefined || log.timestamp > prev) index.set(log.code, log.timestamp);
+  }
+  return index;
+};
+
+export const isDuplicate = (
+  index: DuplicateIndex,
+  code: string,
+  settings: DuplicateSettings,
+  now: number
+): boolean => {
+  const last = index.get(code);
+  if (last === undefined) return false;
+
+  switch (settings.scope) {
+    case 'DAY':
+      return last >= startOfDay(now);
+    case 'WINDOW':
+      return now - last < settings.windowMinutes * 60 * 1000;
+    default:
+      return true;
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Route, ScannedRecord } from '../types';
+import { buildExportRows, escapeCsv, ExportOptions, toCsv, toText } from './exportService';
+
+const route: Route = { id: 'r1', name: 'Dock 3', startedAt: 1000, endedAt: 9000, status: 'COMPLETED' };
+
+const records: ScannedRecord[] = [
+  { id: 'c', type: 'SCAN', code: '10012345678902', timestamp: 3000, routeId: 'r1' },
+  { id: 'b', type: 'REJECTED', code: '15400141288764', timestamp: 2500, routeId: 'r1', rejection: 'CHECK_DIGIT' },
+  { id: 'a', type: 'SCAN', code: '15400141288763', timestamp: 2000, routeId: 'r1', quantity: 3 },
+];
+
+const options = (patch: Partial<ExportOptions> = {}): ExportOptions => ({
+  format: 'TXT', routeIds: null, from: null, to: null, includeMarkers: false, includeRejected: false, ...patch,
+});
+
+describe('toText', () => {
+  it('lists accepted codes oldest first', () => {
+    expect(toText(buildExportRows(records, [route], options()))).toBe('15400141288763\n10012345678902');
+  });
+
+  it('prefixes refused reads with their reason', () => {
+    expect(toText(buildExportRows(records, [route], options({ includeRejected: true }))).split('\n')).toEqual([
+      '15400141288763',
+      'REJECTED:CHECK_DIGIT 15400141288764',
+      '10012345678902',
+    ]);
+  });
+});
+
+describe('escapeCsv', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsv('15400141288763')).toBe('15400141288763');
+    expect(escapeCsv('(01)09501101530003(10)AB-123')).toBe('(01)09501101530003(10)AB-123');
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(escapeCsv('A,B')).toBe('"A,B"');
+    expect(escapeCsv('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsv('A\nB')).toBe('"A\nB"');
+  });
+
+  it.each(['=1+1', '+SUM(A1:A2)', '-2+3', '@cmd', '\t=1', '\r=1'])('neutralises the formula %j', value => {
+    expect(escapeCsv(value).replace(/^"/, '').startsWith("'")).toBe(true);
+  });
+
+  it('quotes a neutralised formula that also holds separators', () => {
+    expect(escapeCsv('=HYPERLINK("http://x","y")')).toBe(`"'=HYPERLINK(""http://x"",""y"")"`);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a header and one escaped line per row', () => {
+    const rows = buildExportRows(
+      [{ id: 'x', type: 'SCAN', code: '=cmd|calc', timestamp: 2000, routeId: 'r1' }],
+      [route],
+      options({ format: 'CSV' })
+    );
+    expect(toCsv(rows).split('\r\n')).toEqual([
+      'code,format,timestamp,route,type,rejection,gs1,quantity',
+      `'=cmd|calc,,${new Date(2000).toISOString()},Dock 3,SCAN,,,1`,
+    ]);
+  });
+});
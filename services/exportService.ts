@@ -0,0 +1,149 @@
+import { Route, ScannedRecord } from '../types';
+import { formatRouteStart, formatRouteEnd } from './routeService';
+import { formatGs1Hri } from './gs1Service';
+
+export type ExportFormat = 'TXT' | 'CSV' | 'JSON';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  routeIds: string[] | null; // null = every route, including route-less records
+  from: number | null;       // Inclusive epoch ms
+  to: number | null;         // Inclusive epoch ms
+  includeMarkers: boolean;   // Route start/end rows and legacy INFO records
+  includeRejected: boolean;  // REJECTED audit records
+}
+
+export interface ExportRow {
+  code: string;
+  format: string;
+  timestamp: string; // ISO 8601
+  routeName: string;
+  type: string;
+  rejection: string; // Rejection reason of REJECTED rows, e.g. 'CHECK_DIGIT'
+  gs1: string; // "(01)...(10)..." when the label carried GS1 Application Identifiers
+  quantity: number | null; // Cases counted for SCAN rows, null for markers
+}
+
+const inRange = (time: number, options: ExportOptions) =>
+  (options.from === null || time >= options.from) && (options.to === null || time <= options.to);
+
+/**
+ * Flattens newest-first logs into chronological export rows. Route start/end
+ * markers are synthesized from the Route entities when requested.
+ */
+export const buildExportRows = (logs: ScannedRecord[], routes: Route[], options: ExportOptions): ExportRow[] => {
+  const routeById = new Map(routes.map(r => [r.id, r]));
+  const selected = (routeId?: string) =>
+    options.routeIds === null || (!!routeId && options.routeIds.includes(routeId));
+
+  const entries: Array<{ time: number; row: ExportRow }> = [];
+
+  for (const log of logs) {
+    if (!selected(log.routeId) || !inRange(log.timestamp, options)) continue;
+    if (log.type === 'INFO' && !options.includeMarkers) continue;
+    if (log.type === 'REJECTED' && !options.includeRejected) continue;
+
+    entries.push({
+      time: log.timestamp,
+      row: {
+        code: log.code,
+        format: log.format || '',
+        timestamp: new Date(log.timestamp).toISOString(),
+        routeName: (log.routeId && routeById.get(log.routeId)?.name) || '',
+        type: log.type,
+        rejection: log.rejection || '',
+        gs1: log.gs1 ? formatGs1Hri(log.gs1) : '',
+        quantity: log.type === 'SCAN' ? log.quantity || 1 : null,
+      },
+    });
+  }
+
+  if (options.includeMarkers) {
+    for (const route of routes) {
+      if (!selected(route.id)) continue;
+      const markers: Array<[number | undefined, string, string]> = [
+        [route.startedAt, formatRouteStart(route), 'ROUTE_START'],
+        [route.endedAt, formatRouteEnd(route), 'ROUTE_END'],
+      ];
+      for (const [time, code, type] of markers) {
+        if (time === undefined || !inRange(time, options)) continue;
+        entries.push({
+          time,
+          row: { code, format: '', timestamp: new Date(time).toISOString(), routeName: route.name, type, rejection: '', gs1: '', quantity: null },
+        });
+      }
+    }
+  }
+
+  // On equal timestamps a start marker goes first and an end marker last
+  const rank = (row: ExportRow) => (row.type === 'ROUTE_START' ? -1 : row.type === 'ROUTE_END' ? 1 : 0);
+  return entries
+    .sort((a, b) => a.time - b.time || rank(a.row) - rank(b.row))
+    .map(e => e.row);
+};
+
+const CSV_COLUMNS: Array<[keyof ExportRow, string]> = [
+  ['code', 'code'],
+  ['format', 'format'],
+  ['timestamp', 'timestamp'],
+  ['routeName', 'route'],
+  ['type', 'type'],
+  ['rejection', 'rejection'],
+  ['gs1', 'gs1'],
+  ['quantity', 'quantity'],
+];
+
+// Free-text codes (Code 128, GS1 HRI) must not run as a spreadsheet formula:
+// such cells get a leading apostrophe, which Excel shows as plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export const escapeCsv = (value: string) => {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: ExportRow[]): string =>
+  [
+    CSV_COLUMNS.map(([, header]) => header).join(','),
+    ...rows.map(row => CSV_COLUMNS.map(([key]) => escapeCsv(String(row[key] ?? ''))).join(',')),
+  ].join('\r\n');
+
+export const toJson = (rows: ExportRow[]): string => JSON.stringify(rows, null, 2);
+
+// Plain code-per-line format used by the existing back-office workflow. Refused reads
+// carry their reason in front, so they can't be mistaken for accepted codes.
+export const toText = (rows: ExportRow[]): string =>
+  rows.map(r => (r.type === 'REJECTED' ? `REJECTED:${r.rejection || '-'} ${r.code}` : r.code)).join('\n');
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mime: string; bom: boolean }> = {
+  TXT: { extension: 'txt', mime: 'text/plain;charset=utf-8', bom: true },
+  CSV: { extension: 'csv', mime: 'text/csv;charset=utf-8', bom: true }, // BOM so Excel detects UTF-8
+  JSON: { extension: 'json', mime: 'application/json;charset=utf-8', bom: false },
+};
+
+export const serializeRows = (rows: ExportRow[], format: ExportFormat): string => {
+  switch (format) {
+    case 'CSV': return toCsv(rows);
+    case 'JSON': return toJson(rows);
+    default: return toText(rows);
+  }
+};
+
+// Triggers a browser download of in-memory text
+export const downloadTextFile = (content: string, fileName: string, mime: string, bom: boolean) => {
+  const blob = new Blob([(bom ? '\uFEFF' : '') + content], { type: mime });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadExport = (rows: ExportRow[], format: ExportFormat, baseName: string) => {
+  const { extension, mime, bom } = FILE_TYPES[format];
+  downloadTextFile(serializeRows(rows, format), `${baseName}.${extension}`, mime, bom);
+};
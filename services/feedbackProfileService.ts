@@ -0,0 +1,111 @@
+import {
+  FeedbackProfile, MessageKey, OutcomeFeedback, RejectionReason, ScanOutcome, SoundId, SpeechMode, VibrationId
+} from '../types';
+
+// Preset mappings from scan outcome to sound / vibration / speech. The
+// operator picks one in settings and may then adjust single outcomes.
+
+const outcome = (sound: SoundId, vibration: VibrationId, speech: SpeechMode): OutcomeFeedback =>
+  ({ sound, vibration, speech });
+
+export const FEEDBACK_PROFILES: FeedbackProfile[] = [
+  {
+    id: 'standard',
+    name: 'feedbackProfile.standard',
+    outcomes: {
+      NEW: outcome('DING_DONG', 'NONE', 'NONE'),
+      COUNT: outcome('BLIP', 'NONE', 'MESSAGE'),
+      DUPLICATE: outcome('BUZZ', 'NONE', 'MESSAGE'),
+      WRONG_LENGTH: outcome('BUZZ', 'NONE', 'MESSAGE'),
+      NOT_ON_MANIFEST: outcome('BEEP_BEEP', 'NONE', 'MESSAGE'),
+      INVALID: outcome('BUZZ', 'NONE', 'MESSAGE'),
+    },
+  },
+  {
+    id: 'warehouse',
+    name: 'feedbackProfile.warehouse',
+    outcomes: {
+      NEW: outcome('DING_DONG', 'SHORT', 'NONE'),
+      COUNT: outcome('BLIP', 'SHORT', 'MESSAGE'),
+      DUPLICATE: outcome('TRIPLE_BEEP', 'DOUBLE', 'MESSAGE'),
+      WRONG_LENGTH: outcome('BUZZ', 'LONG', 'MESSAGE'),
+      NOT_ON_MANIFEST: outcome('BEEP_BEEP', 'DOUBLE', 'MESSAGE'),
+      INVALID: outcome('BUZZ', 'LONG', 'MESSAGE'),
+    },
+  },
+  {
+    id: 'announce',
+    name: 'feedbackProfile.announce',
+    outcomes: {
+      NEW: outcome('DING_DONG', 'SHORT', 'LAST_4'),
+      COUNT: outcome('BLIP', 'SHORT', 'MESSAGE'),
+      DUPLICATE: outcome('BUZZ', 'DOUBLE', 'MESSAGE'),
+      WRONG_LENGTH: outcome('BUZZ', 'LONG', 'MESSAGE'),
+      NOT_ON_MANIFEST: outcome('BEEP_BEEP', 'DOUBLE', 'MESSAGE'),
+      INVALID: outcome('BUZZ', 'LONG', 'MESSAGE'),
+    },
+  },
+  {
+    id: 'silent',
+    name: 'feedbackProfile.silent',
+    outcomes: {
+      NEW: outcome('NONE', 'SHORT', 'NONE'),
+      COUNT: outcome('NONE', 'SHORT', 'NONE'),
+      DUPLICATE: outcome('NONE', 'DOUBLE', 'NONE'),
+      WRONG_LENGTH: outcome('NONE', 'LONG', 'NONE'),
+      NOT_ON_MANIFEST: outcome('NONE', 'DOUBLE', 'NONE'),
+      INVALID: outcome('NONE', 'LONG', 'NONE'),
+    },
+  },
+];
+
+export const DEFAULT_FEEDBACK_PROFILE = FEEDBACK_PROFILES[0];
+
+export const CUSTOM_FEEDBACK_PROFILE_ID = 'CUSTOM';
+
+export const SCAN_OUTCOME_LABELS: Record<ScanOutcome, MessageKey> = {
+  NEW: 'outcome.NEW',
+  COUNT: 'outcome.COUNT',
+  DUPLICATE: 'outcome.DUPLICATE',
+  WRONG_LENGTH: 'outcome.WRONG_LENGTH',
+  NOT_ON_MANIFEST: 'outcome.NOT_ON_MANIFEST',
+  INVALID: 'outcome.INVALID',
+};
+
+export const SOUND_LABELS: Record<SoundId, MessageKey> = {
+  DING_DONG: 'sound.DING_DONG',
+  BLIP: 'sound.BLIP',
+  BEEP_BEEP: 'sound.BEEP_BEEP',
+  BUZZ: 'sound.BUZZ',
+  TRIPLE_BEEP: 'sound.TRIPLE_BEEP',
+  NONE: 'sound.NONE',
+};
+
+export const VIBRATION_LABELS: Record<VibrationId, MessageKey> = {
+  NONE: 'vibration.NONE',
+  SHORT: 'vibration.SHORT',
+  DOUBLE: 'vibration.DOUBLE',
+  LONG: 'vibration.LONG',
+};
+
+export const SPEECH_LABELS: Record<SpeechMode, MessageKey> = {
+  NONE: 'speech.NONE',
+  MESSAGE: 'speech.MESSAGE',
+  LAST_4: 'speech.LAST_4',
+};
+
+// navigator.vibrate patterns (ms on / off)
+export const VIBRATION_PATTERNS: Record<VibrationId, number[]> = {
+  NONE: [],
+  SHORT: [80],
+  DOUBLE: [120, 80, 120],
+  LONG: [400],
+};
+
+export const outcomeForRejection = (reason: RejectionReason): ScanOutcome => {
+  switch (reason) {
+    case 'DUPLICATE': return 'DUPLICATE';
+    case 'LENGTH': return 'WRONG_LENGTH';
+    default: return 'INVALID';
+  }
+};
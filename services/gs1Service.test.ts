@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { formatGs1Date, formatGs1Hri, getGtin, parseGs1ElementString } from './gs1Service';
+import { getProfile } from './profileService';
+import { validateCode } from './validationService';
+
+const GS = '\u001d';
+
+describe('parseGs1ElementString', () => {
+  it('splits fixed-length AIs without separators', () => {
+    expect(parseGs1ElementString(']C1010950110153000317251231')).toEqual([
+      { ai: '01', value: '09501101530003' },
+      { ai: '17', value: '251231' },
+    ]);
+  });
+
+  it('reads an SSCC and 4-digit measure AIs', () => {
+    expect(parseGs1ElementString('00106141411234567897')).toEqual([{ ai: '00', value: '106141411234567897' }]);
+    expect(parseGs1ElementString('01095011015300033103000150')).toEqual([
+      { ai: '01', value: '09501101530003' },
+      { ai: '3103', value: '000150' },
+    ]);
+  });
+
+  it('ends variable-length AIs at the GS separator or the end of the data', () => {
+    expect(parseGs1ElementString(`]C10109501101530003${GS}10AB-123${GS}21SN42`)).toEqual([
+      { ai: '01', value: '09501101530003' },
+      { ai: '10', value: 'AB-123' },
+      { ai: '21', value: 'SN42' },
+    ]);
+    expect(parseGs1ElementString(`0109501101530003${GS}10AB-123${GS}17251231`)).toEqual([
+      { ai: '01', value: '09501101530003' },
+      { ai: '10', value: 'AB-123' },
+      { ai: '17', value: '251231' },
+    ]);
+  });
+
+  it('strips a DataMatrix identifier and a leading FNC1', () => {
+    expect(parseGs1ElementString(`]d2${GS}0109501101530003${GS}21SN42`)).toEqual([
+      { ai: '01', value: '09501101530003' },
+      { ai: '21', value: 'SN42' },
+    ]);
+  });
+
+  it('reads the human readable form', () => {
+    expect(parseGs1ElementString('(01)09501101530003(10)AB-123')).toEqual([
+      { ai: '01', value: '09501101530003' },
+      { ai: '10', value: 'AB-123' },
+    ]);
+  });
+
+  it('rejects malformed element strings', () => {
+    expect(parseGs1ElementString('0109501101530004')).toBeNull();                // GTIN check digit
+    expect(parseGs1ElementString('01095011015300')).toBeNull();                  // Fixed value too short
+    expect(parseGs1ElementString(`0109501101530003${GS}10${'A'.repeat(21)}`)).toBeNull(); // Over max length
+    expect(parseGs1ElementString('880109501101530003')).toBeNull();              // Unknown AI
+    expect(parseGs1ElementString('(01)09501101530003junk(10)AB')).toBeNull();
+    expect(parseGs1ElementString(']C1')).toBeNull();
+  });
+});
+
+describe('GS1 formatting', () => {
+  const elements = [{ ai: '01', value: '09501101530003' }, { ai: '17', value: '251231' }];
+
+  it('builds the HRI string and finds the GTIN', () => {
+    expect(formatGs1Hri(elements)).toBe('(01)09501101530003(17)251231');
+    expect(getGtin(elements)).toBe('09501101530003');
+    expect(getGtin([{ ai: '02', value: '10012345678902' }])).toBe('10012345678902');
+    expect(getGtin([{ ai: '00', value: '106141411234567897' }])).toBeNull();
+  });
+
+  it('formats YYMMDD dates', () => {
+    expect(formatGs1Date('251231')).toBe('2025-12-31');
+    expect(formatGs1Date('2512')).toBe('2512');
+  });
+});
+
+describe('validateCode with GS1 profiles', () => {
+  const raw = `]C10109501101530003${GS}10AB-123`;
+
+  it('validates the GTIN in GTIN mode', () => {
+    const result = validateCode(raw, 'CODE_128', getProfile('gs1-gtin'), new Set(), true);
+    expect(result.code).toBe('09501101530003');
+    expect(result.reason).toBeNull();
+    expect(result.gs1).toHaveLength(2);
+  });
+
+  it('checks duplicates against the GTIN', () => {
+    const scanned = new Set(['09501101530003']);
+    expect(validateCode(raw, 'CODE_128', getProfile('gs1-gtin'), scanned, true).reason).toBe('DUPLICATE');
+  });
+
+  it('keeps the full HRI string in FULL mode', () => {
+    expect(validateCode(raw, 'CODE_128', getProfile('gs1-full'), new Set(), true))
+      .toMatchObject({ code: '(01)09501101530003(10)AB-123', reason: null });
+  });
+
+  it('rejects element strings that do not parse or carry no GTIN', () => {
+    expect(validateCode('0109501101530004', 'CODE_128', getProfile('gs1-gtin'), new Set(), true).reason).toBe('GS1');
+    expect(validateCode('00106141411234567897', 'CODE_128', getProfile('gs1-gtin'), new Set(), true).reason).toBe('GS1');
+  });
+});
@@ -0,0 +1,160 @@
+// GS1 Application Identifier parser for GS1-128 / GS1 DataMatrix element strings.
+// Accepts raw decoder output (FNC1 as GS, optional "]C1" / "]d2" / "]Q3"
+// symbology identifier) as well as the human readable "(01)...(10)..." form.
+
+import { Gs1Element, MessageKey } from '../types';
+
+const GS = '\u001d';
+
+// GS1 Mod-10: weights 3,1,3,1... applied from the rightmost data digit (check digit excluded)
+export const calculateGs1CheckDigit = (data: string): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    const digit = data.charCodeAt(data.length - 1 - i) - 48;
+    sum += digit * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const hasValidGs1CheckDigit = (code: string): boolean => {
+  if (!/^\d{2,}$/.test(code)) return false;
+  const expected = calculateGs1CheckDigit(code.slice(0, -1));
+  return expected === Number(code[code.length - 1]);
+};
+
+interface AiSpec {
+  length: number;   // Exact length for fixed AIs, maximum length for variable ones
+  fixed: boolean;
+  label: MessageKey;
+}
+
+const fixed = (length: number, label: MessageKey): AiSpec => ({ length, fixed: true, label });
+const variable = (length: number, label: MessageKey): AiSpec => ({ length, fixed: false, label });
+
+// Subset of the GS1 AI table that shows up on logistics labels
+const AI_TABLE: Record<string, AiSpec> = {
+  '00': fixed(18, 'gs1.00'),
+  '01': fixed(14, 'gs1.01'),
+  '02': fixed(14, 'gs1.02'),
+  '10': variable(20, 'gs1.10'),
+  '11': fixed(6, 'gs1.11'),
+  '12': fixed(6, 'gs1.12'),
+  '13': fixed(6, 'gs1.13'),
+  '15': fixed(6, 'gs1.15'),
+  '16': fixed(6, 'gs1.16'),
+  '17': fixed(6, 'gs1.17'),
+  '20': fixed(2, 'gs1.20'),
+  '21': variable(20, 'gs1.21'),
+  '22': variable(20, 'gs1.22'),
+  '240': variable(30, 'gs1.240'),
+  '241': variable(30, 'gs1.241'),
+  '30': variable(8, 'gs1.30'),
+  '37': variable(8, 'gs1.30'),
+  '400': variable(30, 'gs1.400'),
+  '401': variable(30, 'gs1.401'),
+  '403': variable(30, 'gs1.403'),
+  '410': fixed(13, 'gs1.410'),
+  '413': fixed(13, 'gs1.413'),
+  '414': fixed(13, 'gs1.414'),
+  '420': variable(20, 'gs1.420'),
+  '90': variable(30, 'gs1.90'),
+};
+
+// 4-digit measure AIs (310n..369n, n = decimal places) are all fixed 6
+const isMeasureAi = (ai: string) => /^3[1-6]\d\d$/.test(ai);
+
+const lookupAi = (data: string, pos: number): { ai: string; spec: AiSpec } | null => {
+  for (const len of [2, 3, 4]) {
+    const ai = data.substr(pos, len);
+    if (ai.length < len) break;
+    if (AI_TABLE[ai]) return { ai, spec: AI_TABLE[ai] };
+    if (len === 4 && isMeasureAi(ai)) return { ai, spec: fixed(6, 'gs1.measure') };
+    if (len === 2 && /^9[1-9]$/.test(ai)) return { ai, spec: variable(90, 'gs1.company') };
+  }
+  return null;
+};
+
+// Catalog key of the AI's name; null for AIs outside the table
+export const getAiLabelKey = (ai: string): MessageKey | null =>
+  AI_TABLE[ai]?.label || (isMeasureAi(ai) ? 'gs1.measure' : /^9[1-9]$/.test(ai) ? 'gs1.company' : null);
+
+const parseHumanReadable = (text: string): Gs1Element[] | null => {
+  const elements: Gs1Element[] = [];
+  const re = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    if (match.index !== consumed) return null;
+    elements.push({ ai: match[1], value: match[2] });
+    consumed = re.lastIndex;
+  }
+  return consumed === text.length && elements.length > 0 ? elements : null;
+};
+
+const parseRaw = (data: string): Gs1Element[] | null => {
+  const elements: Gs1Element[] = [];
+  let pos = 0;
+
+  while (pos < data.length) {
+    if (data[pos] === GS) { pos++; continue; }
+
+    const found = lookupAi(data, pos);
+    if (!found) return null;
+    pos += found.ai.length;
+
+    let value: string;
+    if (found.spec.fixed) {
+      value = data.substr(pos, found.spec.length);
+      if (value.length !== found.spec.length) return null;
+    } else {
+      const end = data.indexOf(GS, pos);
+      value = data.slice(pos, end === -1 ? data.length : end);
+      if (value.length === 0 || value.length > found.spec.length) return null;
+    }
+    elements.push({ ai: found.ai, value });
+    pos += value.length;
+  }
+
+  return elements.length > 0 ? elements : null;
+};
+
+// Fixed-length AI values must have their exact length, and key identifiers a valid check digit
+const isConsistent = (elements: Gs1Element[]): boolean =>
+  elements.every(({ ai, value }) => {
+    const spec = AI_TABLE[ai] || (isMeasureAi(ai) ? fixed(6, 'gs1.measure') : null);
+    if (spec?.fixed && value.length !== spec.length) return false;
+    if (['00', '01', '02'].includes(ai) && !hasValidGs1CheckDigit(value)) return false;
+    return true;
+  });
+
+/**
+ * Parses a GS1 element string into its elements, in label order. Returns null when the data
+ * is not a well-formed element string (unknown AI, wrong fixed length,
+ * bad SSCC/GTIN check digit).
+ */
+export const parseGs1ElementString = (raw: string): Gs1Element[] | null => {
+  // Strip the symbology identifier and a leading FNC1
+  let data = raw.replace(/^\][A-Za-z]\d/, '');
+  if (data.startsWith(GS)) data = data.slice(1);
+  if (!data) return null;
+
+  const elements = data.startsWith('(') ? parseHumanReadable(data) : parseRaw(data);
+  return elements && isConsistent(elements) ? elements : null;
+};
+
+// "(01)09501101530003(10)AB-123" - stable, human readable form used as the record code
+export const formatGs1Hri = (elements: Gs1Element[]): string =>
+  elements.map(({ ai, value }) => `(${ai})${value}`).join('');
+
+// YYMMDD -> 20YY-MM-DD (DD "00" means end of month and is kept as-is)
+export const formatGs1Date = (value: string): string =>
+  /^\d{6}$/.test(value) ? `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}` : value;
+
+const DATE_AIS = ['11', '12', '13', '15', '16', '17'];
+
+export const formatGs1Value = (ai: string, value: string): string =>
+  DATE_AIS.includes(ai) ? formatGs1Date(value) : value;
+
+// GTIN carried by the element string: (01), or (02) for logistic units without an own GTIN
+export const getGtin = (elements: Gs1Element[]): string | null =>
+  (elements.find(e => e.ai === '01') || elements.find(e => e.ai === '02'))?.value || null;
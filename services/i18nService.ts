@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { LOCALES, LocaleInfo } from '../locales';
+import { Locale, MessageKey } from '../types';
+import { getSettings, subscribeSettings } from './settingsService';
+
+// Message lookup and date formatting in the locale picked in settings.
+// Everything reads the locale at call time, like the other settings.
+
+const getLocaleInfo = (): LocaleInfo => LOCALES[getSettings().locale] || LOCALES.ko;
+
+// BCP 47 tag of the current locale, e.g. 'ko-KR'
+export const getLocaleTag = () => getLocaleInfo().tag;
+
+/**
+ * Looks up `key` in the current catalog and fills "{name}" placeholders from
+ * `params`. Placeholders without a matching param are left as they are.
+ */
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const text = getLocaleInfo().messages[key] ?? key;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+export const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(getLocaleTag());
+
+export const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(getLocaleTag());
+
+// Whole minutes, e.g. "1시간 5분" / "1h 5m"
+export const formatDuration = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0
+    ? t('duration.hoursMinutes', { hours, minutes: minutes % 60 })
+    : t('duration.minutes', { minutes });
+};
+
+// Re-renders the calling component when the language changes (t() itself is not reactive)
+export const useLocale = (): Locale => {
+  const [locale, setLocale] = useState(() => getSettings().locale);
+  useEffect(() => subscribeSettings(s => setLocale(s.locale)), []);
+  return locale;
+};
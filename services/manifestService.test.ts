@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ScannedRecord } from '../types';
+import { classifyAgainstManifest, parseManifest, reconcile, reconciliationToCsv } from './manifestService';
+
+// Permissive rule, like a Code 128 profile: anything non-empty is a code
+const anyCode = (token: string) => token.length > 0;
+
+describe('parseManifest', () => {
+  it('reads a plain one-code-per-line list', () => {
+    expect(parseManifest('15400141288763\r\n10012345678902\n\n15400141288763\n')).toEqual([
+      '15400141288763',
+      '10012345678902',
+    ]);
+  });
+
+  it('skips a header row and reads the column it names', () => {
+    const csv = 'description,qty,barcode,date\nWidget,2,A-100,2025-01-31\nGadget,5,B-200,2025-02-01';
+    expect(parseManifest(csv, anyCode)).toEqual(['A-100', 'B-200']);
+  });
+
+  it('falls back to the first column when no header names the codes', () => {
+    expect(parseManifest('id;qty;note\nA-100;2;fragile\nB-200;5;', anyCode)).toEqual(['A-100', 'B-200']);
+    expect(parseManifest('15400141288763,3,Widget\n10012345678902,1,Gadget', anyCode)).toEqual([
+      '15400141288763',
+      '10012345678902',
+    ]);
+  });
+
+  it('never takes quantities or descriptions for codes', () => {
+    const csv = 'code,qty,description\n15400141288763,12,"Boxes, large"\n10012345678902,1,Bags';
+    expect(parseManifest(csv, anyCode)).toEqual(['15400141288763', '10012345678902']);
+  });
+
+  it('honours quoted cells with delimiters, escaped quotes and line breaks', () => {
+    const csv = 'note,code\n"Fragile, ""top"" only\nsecond line",A-100\n"x",  "B,200"  ';
+    expect(parseManifest(csv, anyCode)).toEqual(['A-100', 'B,200']);
+  });
+
+  it('detects tab-separated files', () => {
+    expect(parseManifest('qty\tgtin\n2\t15400141288763\n1\t10012345678902')).toEqual([
+      '15400141288763',
+      '10012345678902',
+    ]);
+  });
+
+  it('drops rows the code rule refuses', () => {
+    expect(parseManifest('code\n15400141288763\n1540014128876\nTOTAL')).toEqual(['15400141288763']);
+    expect(parseManifest('')).toEqual([]);
+  });
+});
+
+describe('classifyAgainstManifest', () => {
+  const manifest = new Set(['15400141288763']);
+
+  it('tells expected, unexpected and repeated codes apart', () => {
+    expect(classifyAgainstManifest('15400141288763', manifest, new Set())).toBe('EXPECTED');
+    expect(classifyAgainstManifest('10012345678902', manifest, new Set())).toBe('UNEXPECTED');
+    expect(classifyAgainstManifest('15400141288763', manifest, new Set(['15400141288763']))).toBe('ALREADY_SCANNED');
+  });
+});
+
+describe('reconcile', () => {
+  const records: ScannedRecord[] = [
+    { id: '1', type: 'SCAN', code: '15400141288763', timestamp: 1 },
+    { id: '2', type: 'SCAN', code: '=1+1', timestamp: 2 },
+    { id: '3', type: 'REJECTED', code: '10012345678902', timestamp: 3, rejection: 'DUPLICATE' },
+  ];
+
+  it('splits the manifest into scanned, missing and unexpected codes', () => {
+    const report = reconcile(['15400141288763', '10012345678902'], records);
+    expect(report).toEqual({ scanned: ['15400141288763'], missing: ['10012345678902'], unexpected: ['=1+1'] });
+    expect(reconciliationToCsv(report).split('\r\n')).toEqual([
+      'status,code',
+      'SCANNED,15400141288763',
+      'MISSING,10012345678902',
+      "UNEXPECTED,'=1+1",
+    ]);
+  });
+});
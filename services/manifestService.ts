@@ -0,0 +1,117 @@
+import { ManifestCheck, MessageKey, ScannedRecord } from '../types';
+import { escapeCsv } from './exportService';
+
+// Expected-shipment manifests: a list of expected codes attached to a route.
+
+export const MANIFEST_MESSAGES: Record<ManifestCheck, MessageKey> = {
+  EXPECTED: 'manifest.EXPECTED',
+  UNEXPECTED: 'manifest.UNEXPECTED',
+  ALREADY_SCANNED: 'manifest.ALREADY_SCANNED',
+};
+
+const isFourteenDigits = (token: string) => /^\d{14}$/.test(token);
+
+// Header cells that name the column holding the codes
+const CODE_COLUMN_HEADER = /^(code|barcode|gtin|ean|upc|itf|sscc|item ?code|바코드|코드)$/i;
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Most frequent delimiter on the first line; null for a plain one-code-per-line list
+const detectDelimiter = (text: string): string | null => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) || '';
+  const counts = DELIMITERS.map(d => firstLine.split(d).length - 1);
+  const best = Math.max(...counts);
+  return best > 0 ? DELIMITERS[counts.indexOf(best)] : null;
+};
+
+// Rows of trimmed cells. Quoted cells may hold delimiters, line breaks and "" escapes.
+const parseRows = (text: string, delimiter: string | null): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(Boolean)) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (text[i + 1] === '"') { cell += '"'; i++; }
+      else quoted = false;
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      endCell();
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+/**
+ * Extracts expected codes from a CSV or plain-text manifest (one code per
+ * row); duplicates are dropped, file order is kept. A first row without any
+ * code in it (codes hold digits, so "code" or "barcode" never passes) is a
+ * header: the column it names is read, otherwise the first column. Other
+ * columns (quantities, dates, descriptions) are never taken as codes.
+ */
+export const parseManifest = (text: string, isCode: (token: string) => boolean = isFourteenDigits): string[] => {
+  const rows = parseRows(text, detectDelimiter(text));
+  if (rows.length === 0) return [];
+
+  const header = rows[0];
+  const isHeader = !header.some(cell => /\d/.test(cell) && isCode(cell));
+  const column = Math.max(0, isHeader ? header.findIndex(cell => CODE_COLUMN_HEADER.test(cell)) : -1);
+  const body = isHeader ? rows.slice(1) : rows;
+
+  return [...new Set(body.map(cells => cells[column] || '').filter(code => code && isCode(code)))];
+};
+
+export const classifyAgainstManifest = (
+  code: string,
+  manifest: ReadonlySet<string>,
+  scannedInRoute: ReadonlySet<string>
+): ManifestCheck => {
+  if (scannedInRoute.has(code)) return 'ALREADY_SCANNED';
+  return manifest.has(code) ? 'EXPECTED' : 'UNEXPECTED';
+};
+
+export interface ReconciliationReport {
+  scanned: string[];    // On the manifest and scanned
+  missing: string[];    // On the manifest, not scanned yet
+  unexpected: string[]; // Scanned but not on the manifest
+}
+
+export const reconcile = (manifest: string[], records: ScannedRecord[]): ReconciliationReport => {
+  const expected = new Set(manifest);
+  const scannedCodes = new Set(records.filter(r => r.type === 'SCAN').map(r => r.code));
+
+  return {
+    scanned: manifest.filter(code => scannedCodes.has(code)),
+    missing: manifest.filter(code => !scannedCodes.has(code)),
+    unexpected: [...scannedCodes].filter(code => !expected.has(code)),
+  };
+};
+
+export const reconciliationToCsv = (report: ReconciliationReport): string =>
+  [
+    'status,code',
+    ...report.scanned.map(code => `SCANNED,${escapeCsv(code)}`),
+    ...report.missing.map(code => `MISSING,${escapeCsv(code)}`),
+    ...report.unexpected.map(code => `UNEXPECTED,${escapeCsv(code)}`),
+  ].join('\r\n');
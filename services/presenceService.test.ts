@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createPresenceTracker } from './presenceService';
+
+const GAP_MS = 2100; // Default feedback lock + LEAVE_VIEW_GAP_MS
+const THROTTLE_MS = 1000;
+
+// Reads the same code every `stepMs` for `durationMs`; returns the reads that were new
+const hold = (tracker: ReturnType<typeof createPresenceTracker>, code: string, start: number, durationMs: number, stepMs: number) => {
+  let fresh = 0;
+  for (let now = start; now <= start + durationMs; now += stepMs) {
+    if (!tracker.read(code, now)) fresh++;
+  }
+  return fresh;
+};
+
+describe('createPresenceTracker', () => {
+  it('treats a label held across several throttle periods as one presentation', () => {
+    const tracker = createPresenceTracker(() => GAP_MS);
+    expect(hold(tracker, '15400141288763', 0, 3 * THROTTLE_MS, THROTTLE_MS)).toBe(1);
+    expect(hold(tracker, '15400141288763', 3100, 5000, 100)).toBe(0);
+  });
+
+  it('sees the code again after a no-read gap', () => {
+    const tracker = createPresenceTracker(() => GAP_MS);
+    expect(tracker.read('15400141288763', 0)).toBe(false);
+    expect(tracker.read('15400141288763', GAP_MS)).toBe(true);
+    expect(tracker.read('15400141288763', 2 * GAP_MS + 1)).toBe(false);
+  });
+
+  it('sees the code again after another code was read', () => {
+    const tracker = createPresenceTracker(() => GAP_MS);
+    tracker.read('15400141288763', 0);
+    tracker.read('10012345678902', 200);
+    expect(tracker.read('15400141288763', 400)).toBe(false);
+  });
+
+  it('forgets the code on reset', () => {
+    const tracker = createPresenceTracker(() => GAP_MS);
+    tracker.read('15400141288763', 0);
+    tracker.reset();
+    expect(tracker.read('15400141288763', 100)).toBe(false);
+  });
+
+  it('reads the gap at call time', () => {
+    let gap = GAP_MS;
+    const tracker = createPresenceTracker(() => gap);
+    tracker.read('15400141288763', 0);
+    gap = 500;
+    expect(tracker.read('15400141288763', 1000)).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+// Tells a label still held in front of the camera apart from the same code
+// presented again. A code has left view once it went unread for the gap, or
+// another code was read in between.
+
+// No-read time, on top of the feedback lock (the scanner doesn't decode during it)
+export const LEAVE_VIEW_GAP_MS = 1500;
+
+export interface PresenceTracker {
+  // Registers a camera read; true when the code was already in view
+  read: (code: string, now: number) => boolean;
+  reset: () => void;
+}
+
+export const createPresenceTracker = (getGapMs: () => number): PresenceTracker => {
+  let lastCode: string | null = null;
+  let lastReadAt = 0;
+
+  return {
+    read: (code, now) => {
+      const inView = code === lastCode && now - lastReadAt <= getGapMs();
+      lastCode = code;
+      lastReadAt = now;
+      return inView;
+    },
+    reset: () => {
+      lastCode = null;
+    },
+  };
+};
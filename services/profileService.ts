@@ -0,0 +1,70 @@
+import { ValidationProfile } from '../types';
+
+// Named validation profiles: which symbologies the camera decodes and which
+// rules a decoded code must pass. A route picks one when it starts.
+
+export const VALIDATION_PROFILES: ValidationProfile[] = [
+  {
+    id: 'itf14',
+    name: 'profile.itf14',
+    symbologies: ['ITF'],
+    lengths: [14],
+    numericOnly: true,
+    checkDigit: 'GS1_MOD10',
+  },
+  {
+    id: 'itf-6-14-16',
+    name: 'profile.itf-6-14-16',
+    symbologies: ['ITF'],
+    lengths: [6, 14, 16],
+    numericOnly: true,
+    checkDigit: 'GS1_MOD10',
+  },
+  {
+    id: 'ean13',
+    name: 'profile.ean13',
+    symbologies: ['EAN_13'],
+    lengths: [13],
+    numericOnly: true,
+    checkDigit: 'GS1_MOD10',
+  },
+  {
+    id: 'code128',
+    name: 'profile.code128',
+    symbologies: ['CODE_128'],
+    lengths: [],
+    numericOnly: false,
+    checkDigit: 'NONE', // Code 128 carries its own symbol checksum, validated by the decoder
+  },
+  {
+    id: 'gs1-gtin',
+    name: 'profile.gs1-gtin',
+    symbologies: ['CODE_128', 'DATA_MATRIX'],
+    lengths: [14],
+    numericOnly: true,
+    checkDigit: 'GS1_MOD10',
+    gs1Mode: 'GTIN',
+  },
+  {
+    id: 'gs1-full',
+    name: 'profile.gs1-full',
+    symbologies: ['CODE_128', 'DATA_MATRIX'],
+    lengths: [],
+    numericOnly: false,
+    checkDigit: 'NONE', // SSCC / GTIN check digits are verified by the GS1 parser
+    gs1Mode: 'FULL',
+  },
+];
+
+export const DEFAULT_PROFILE_ID = 'itf14';
+
+const LAST_PROFILE_KEY = 'scanner_last_profile_id';
+
+export const getProfile = (id?: string): ValidationProfile =>
+  VALIDATION_PROFILES.find(p => p.id === id) || VALIDATION_PROFILES.find(p => p.id === DEFAULT_PROFILE_ID)!;
+
+export const loadLastProfileId = (): string => localStorage.getItem(LAST_PROFILE_KEY) || DEFAULT_PROFILE_ID;
+
+export const saveLastProfileId = (id: string) => {
+  localStorage.setItem(LAST_PROFILE_KEY, id);
+};
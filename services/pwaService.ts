@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+
+// Service worker registration and the "new version available" state. A new
+// version only takes over when applyUpdate() is called, so the app decides
+// when reloading is safe (never during a route).
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+type UpdateListener = (available: boolean) => void;
+
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<UpdateListener>();
+
+const setWaitingWorker = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener(!!worker));
+};
+
+// An installed worker is an update only when an older one controls the page
+const watchInstalling = (worker: ServiceWorker | null) => {
+  worker?.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(worker);
+  });
+};
+
+// Production builds only: the dev server has no /sw.js
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+      watchInstalling(registration.installing);
+      registration.addEventListener('updatefound', () => watchInstalling(registration.installing));
+
+      // Devices stay on the home-screen app for days: look for a new build now and then
+      const checkForUpdate = () => { registration.update().catch(() => { /* Offline */ }); };
+      setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') checkForUpdate();
+      });
+    }).catch(err => console.error("Service worker registration failed", err));
+  });
+};
+
+export const isUpdateAvailable = () => waitingWorker !== null;
+
+export const subscribeUpdate = (listener: UpdateListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Activates the waiting version and reloads once it controls the page
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage('SKIP_WAITING');
+};
+
+export const useUpdateAvailable = (): boolean => {
+  const [available, setAvailable] = useState(isUpdateAvailable);
+  useEffect(() => subscribeUpdate(setAvailable), []);
+  return available;
+};
@@ -0,0 +1,59 @@
+import { MessageKey, ScannedRecord } from '../types';
+
+// Search and filters of the list view. The export and clipboard actions work
+// on the same filtered records, so what you see is what you export.
+
+export type RecordKind = 'ALL' | 'CAMERA' | 'MANUAL' | 'INFO';
+
+export const RECORD_KIND_LABELS: Record<RecordKind, MessageKey> = {
+  ALL: 'filter.kind.ALL',
+  CAMERA: 'filter.kind.CAMERA',
+  MANUAL: 'filter.kind.MANUAL',
+  INFO: 'filter.kind.INFO',
+};
+
+export interface RecordFilter {
+  query: string;          // Part of the code, e.g. the last 4 digits on the label
+  routeId: string | null; // null = every route, including route-less records
+  from: number | null;    // Inclusive epoch ms
+  to: number | null;      // Inclusive epoch ms
+  kind: RecordKind;
+  showRejected: boolean;  // REJECTED audit records are hidden unless asked for
+}
+
+// <input type="date"> value -> local start / end of that day
+export const parseDateInput = (value: string, endOfDay: boolean): number | null => {
+  if (!value) return null;
+  const [y, m, d] = value.split('-').map(Number);
+  return endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime() : new Date(y, m - 1, d).getTime();
+};
+
+const matchesKind = (record: ScannedRecord, kind: RecordKind) => {
+  switch (kind) {
+    case 'ALL': return true;
+    case 'CAMERA': return record.type !== 'INFO' && !record.manual;
+    case 'MANUAL': return record.type !== 'INFO' && !!record.manual;
+    case 'INFO': return record.type === 'INFO';
+  }
+};
+
+// Filters narrowing the list beyond the route picker (which has its own control)
+export const hasRecordFilter = (filter: RecordFilter) =>
+  filter.query.trim() !== '' || filter.from !== null || filter.to !== null || filter.kind !== 'ALL' || filter.showRejected;
+
+/**
+ * Records matching every part of the filter, order kept. The query is matched
+ * case-insensitively anywhere in the code; spaces and dashes typed by the
+ * operator are ignored.
+ */
+export const filterRecords = (logs: ScannedRecord[], filter: RecordFilter): ScannedRecord[] => {
+  const query = filter.query.replace(/[\s-]/g, '').toUpperCase();
+  return logs.filter(l =>
+    (filter.routeId === null || l.routeId === filter.routeId) &&
+    (filter.from === null || l.timestamp >= filter.from) &&
+    (filter.to === null || l.timestamp <= filter.to) &&
+    (l.type !== 'REJECTED' || filter.showRejected) &&
+    matchesKind(l, filter.kind) &&
+    (query === '' || l.code.toUpperCase().includes(query))
+  );
+};
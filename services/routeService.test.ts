@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { ScannedRecord } from '../types';
+import { closeStaleRoutes, groupRecordsByRoute, migrateLegacyMarkers } from './routeService';
+
+const info = (timestamp: number, code: string): ScannedRecord => ({ id: `i${timestamp}`, type: 'INFO', code, timestamp });
+const scan = (timestamp: number, patch: Partial<ScannedRecord> = {}): ScannedRecord =>
+  ({ id: `s${timestamp}`, type: 'SCAN', code: '15400141288763', timestamp, ...patch });
+
+// Stored newest-first, like the app keeps them
+const newestFirst = (records: ScannedRecord[]) => [...records].reverse();
+
+describe('migrateLegacyMarkers', () => {
+  it('returns logs without markers untouched', () => {
+    const logs = newestFirst([scan(1), info(2, 'Camera restarted')]);
+    const result = migrateLegacyMarkers(logs);
+    expect(result.logs).toBe(logs);
+    expect(result.routes).toEqual([]);
+  });
+
+  it('turns marker pairs into routes and links the scans in between', () => {
+    const { logs, routes } = migrateLegacyMarkers(newestFirst([
+      info(1, '(서울-강남-01) 시작 ▼'),
+      scan(2),
+      info(3, 'Camera restarted'),
+      info(4, '(서울-강남-01) 종료 ▲'),
+      scan(5),
+    ]));
+
+    expect(routes).toEqual([
+      { id: expect.any(String), name: '서울-강남-01', startedAt: 1, endedAt: 4, status: 'COMPLETED' },
+    ]);
+    // Markers are dropped; other records keep their order
+    expect(logs.map(l => [l.id, l.routeId])).toEqual([
+      ['s5', undefined],
+      ['i3', undefined],
+      ['s2', routes[0].id],
+    ]);
+  });
+
+  it('marks routes without a matching end marker as interrupted', () => {
+    const { logs, routes } = migrateLegacyMarkers(newestFirst([
+      info(1, '(A) 시작 ▼'),
+      scan(2),
+      info(3, '(B) 시작 ▼'),
+      scan(4, { routeId: 'kept' }),
+      info(5, '(A) 종료 ▲'),
+      scan(6),
+    ]));
+
+    expect(routes.map(r => [r.name, r.status, r.endedAt])).toEqual([
+      ['A', 'INTERRUPTED', undefined],
+      ['B', 'INTERRUPTED', undefined],
+    ]);
+    expect(logs.map(l => l.routeId)).toEqual([routes[1].id, 'kept', routes[0].id]);
+  });
+});
+
+describe('closeStaleRoutes', () => {
+  it('interrupts routes left active by a closed app', () => {
+    const routes = closeStaleRoutes([
+      { id: 'a', name: 'A', startedAt: 1, status: 'ACTIVE' },
+      { id: 'b', name: 'B', startedAt: 2, endedAt: 3, status: 'COMPLETED' },
+    ]);
+    expect(routes.map(r => r.status)).toEqual(['INTERRUPTED', 'COMPLETED']);
+  });
+});
+
+describe('groupRecordsByRoute', () => {
+  it('orders groups by route start and collects records outside any route first', () => {
+    const routes = [
+      { id: 'late', name: 'Late', startedAt: 20, status: 'COMPLETED' as const },
+      { id: 'early', name: 'Early', startedAt: 10, status: 'COMPLETED' as const },
+    ];
+    const groups = groupRecordsByRoute(
+      newestFirst([scan(1), scan(11, { routeId: 'early' }), scan(21, { routeId: 'late' }), scan(22, { routeId: 'gone' })]),
+      routes
+    );
+    expect(groups.map(g => [g.route?.id ?? null, g.records.map(r => r.id)])).toEqual([
+      [null, ['s1', 's22']],
+      ['early', ['s11']],
+      ['late', ['s21']],
+    ]);
+  });
+});
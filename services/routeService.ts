@@ -0,0 +1,130 @@
+import { Route, ScannedRecord } from '../types';
+import { t } from './i18nService';
+
+// Legacy marker text written by older versions: "(서울-강남-01) 시작 ▼" / "(서울-강남-01) 종료 ▲"
+const LEGACY_START_MARKER = /^\((.*)\) 시작 ▼$/;
+const LEGACY_END_MARKER = /^\((.*)\) 종료 ▲$/;
+
+export const createRoute = (name: string): Route => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  startedAt: Date.now(),
+  status: 'ACTIVE',
+});
+
+// Marker lines in the list and TXT exports, in the current language
+export const formatRouteStart = (route: Route) => t('route.start', { name: route.name });
+export const formatRouteEnd = (route: Route) => t('route.end', { name: route.name });
+
+// A route still marked ACTIVE on load means the app was closed mid-route
+export const closeStaleRoutes = (routes: Route[]): Route[] =>
+  routes.map(r => (r.status === 'ACTIVE' ? { ...r, status: 'INTERRUPTED' } : r));
+
+/**
+ * Converts INFO start/end marker records into Route entities and links the
+ * SCAN records in between via routeId. Logs are stored newest-first.
+ * Returns the input unchanged when there is nothing to migrate.
+ */
+export const migrateLegacyMarkers = (logs: ScannedRecord[]): { logs: ScannedRecord[]; routes: Route[] } => {
+  const hasMarkers = logs.some(l =>
+    l.type === 'INFO' && (LEGACY_START_MARKER.test(l.code) || LEGACY_END_MARKER.test(l.code))
+  );
+  if (!hasMarkers) return { logs, routes: [] };
+
+  const routes: Route[] = [];
+  const migrated: ScannedRecord[] = [];
+  let current: Route | null = null;
+
+  // Walk chronologically (Oldest -> Newest)
+  for (const log of [...logs].reverse()) {
+    if (log.type === 'INFO') {
+      const start = log.code.match(LEGACY_START_MARKER);
+      if (start) {
+        if (current) current.status = 'INTERRUPTED';
+        current = { id: crypto.randomUUID(), name: start[1], startedAt: log.timestamp, status: 'INTERRUPTED' };
+        routes.push(current);
+        continue;
+      }
+      const end = log.code.match(LEGACY_END_MARKER);
+      if (end) {
+        if (current && current.name === end[1]) {
+          current.endedAt = log.timestamp;
+          current.status = 'COMPLETED';
+          current = null;
+        }
+        continue;
+      }
+    }
+
+    migrated.push(log.type === 'SCAN' && current && !log.routeId ? { ...log, routeId: current.id } : log);
+  }
+
+  return { logs: migrated.reverse(), routes };
+};
+
+export interface RouteGroup {
+  route: Route | null; // null collects records captured outside any route
+  records: ScannedRecord[]; // Chronological (Oldest -> Newest)
+}
+
+// Groups newest-first logs by route, ordered chronologically by route start
+export const groupRecordsByRoute = (logs: ScannedRecord[], routes: Route[]): RouteGroup[] => {
+  const byRoute = new Map<string, ScannedRecord[]>();
+  const unassigned: ScannedRecord[] = [];
+
+  for (const log of [...logs].reverse()) {
+    const route = log.routeId ? routes.find(r => r.id === log.routeId) : undefined;
+    if (!route) {
+      unassigned.push(log);
+      continue;
+    }
+    if (!byRoute.has(route.id)) byRoute.set(route.id, []);
+    byRoute.get(route.id)!.push(log);
+  }
+
+  const groups: RouteGroup[] = [...routes]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .map(route => ({ route, records: byRoute.get(route.id) || [] }));
+
+  if (unassigned.length > 0) groups.unshift({ route: null, records: unassigned });
+  return groups;
+};
+
+// Accepted cases: SCAN records with their count-mode quantity
+export const countCases = (records: ScannedRecord[]): number =>
+  records.reduce((sum, r) => sum + (r.type === 'SCAN' ? r.quantity || 1 : 0), 0);
+
+export interface RouteSummary {
+  route: Route;
+  scanCount: number;         // Accepted SCAN records
+  caseCount: number;         // Cases those records stand for (quantities summed)
+  rejectedCount: number;     // REJECTED records
+  durationMs: number | null; // Start to end (or last scan for interrupted routes); null while active
+}
+
+// Per-route totals for the history screen, newest route first
+export const summarizeRoutes = (routes: Route[], logs: ScannedRecord[]): RouteSummary[] => {
+  const scans = new Map<string, ScannedRecord[]>();
+  const rejected = new Map<string, number>();
+  for (const log of logs) {
+    if (log.type === 'REJECTED' && log.routeId) rejected.set(log.routeId, (rejected.get(log.routeId) || 0) + 1);
+    if (log.type !== 'SCAN' || !log.routeId) continue;
+    if (!scans.has(log.routeId)) scans.set(log.routeId, []);
+    scans.get(log.routeId)!.push(log);
+  }
+
+  return [...routes]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .map(route => {
+      const records = scans.get(route.id) || [];
+      const lastScanAt = records.reduce((max, r) => Math.max(max, r.timestamp), route.startedAt);
+      const endedAt = route.status === 'ACTIVE' ? null : route.endedAt ?? lastScanAt;
+      return {
+        route,
+        scanCount: records.length,
+        caseCount: countCases(records),
+        rejectedCount: rejected.get(route.id) || 0,
+        durationMs: endedAt === null ? null : endedAt - route.startedAt,
+      };
+    });
+};
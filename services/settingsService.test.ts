@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The store loads once per import: every test starts from a fresh module and storage
+const importSettings = async () => {
+  vi.resetModules();
+  return import('./settingsService');
+};
+
+beforeEach(() => localStorage.clear());
+
+describe('settingsService', () => {
+  it('keeps the UI language on reset', async () => {
+    const { DEFAULT_SETTINGS, getSettings, resetSettings, updateSettings } = await importSettings();
+    const otherLocale = DEFAULT_SETTINGS.locale === 'ko' ? 'en' : 'ko';
+    updateSettings({ locale: otherLocale, feedbackLockMs: 900, decoderBackend: 'ZXING' });
+
+    resetSettings();
+    expect(getSettings()).toEqual({ ...DEFAULT_SETTINGS, locale: otherLocale });
+  });
+
+  it('moves the decoder backend and consensus settings kept under their old keys into the store', async () => {
+    localStorage.setItem('scanner_decoder_backend', 'NATIVE');
+    localStorage.setItem('scanner_consensus_settings', JSON.stringify({ mode: 'FRAMES', requiredReads: 4 }));
+    const { getSettings, updateSettings } = await importSettings();
+
+    expect(getSettings().decoderBackend).toBe('NATIVE');
+    expect(getSettings().consensus).toEqual({ mode: 'FRAMES', requiredReads: 4, windowMs: 1500 });
+
+    updateSettings({ rotateRoi: false });
+    expect(localStorage.getItem('scanner_decoder_backend')).toBeNull();
+    expect(JSON.parse(localStorage.getItem('scanner_settings')!).decoderBackend).toBe('NATIVE');
+  });
+
+  it('falls back to AUTO for an unknown decoder backend', async () => {
+    localStorage.setItem('scanner_settings', JSON.stringify({ decoderBackend: 'GONE' }));
+    const { getSettings } = await importSettings();
+    expect(getSettings().decoderBackend).toBe('AUTO');
+  });
+
+  it('tells subscribers about changes until they unsubscribe', async () => {
+    const { subscribeSettings, updateSettings } = await importSettings();
+    const listener = vi.fn();
+    const unsubscribe = subscribeSettings(listener);
+
+    updateSettings({ sameCodeThrottleMs: 500 });
+    unsubscribe();
+    updateSettings({ sameCodeThrottleMs: 700 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].sameCodeThrottleMs).toBe(500);
+  });
+});
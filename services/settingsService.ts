@@ -0,0 +1,94 @@
+import { AppSettings, DecoderBackendId, ResolutionStep } from '../types';
+import { DEFAULT_FEEDBACK_PROFILE } from './feedbackProfileService';
+import { DEFAULT_CONSENSUS_SETTINGS } from './consensusService';
+import { detectLocale, LOCALES } from '../locales';
+
+// Scanner / feedback / validation tunables. Read at call time by the
+// services that use them, so a change applies to the next scan.
+
+const SETTINGS_KEY = 'scanner_settings';
+
+// Kept under their own keys before they moved into the settings store
+const LEGACY_DECODER_BACKEND_KEY = 'scanner_decoder_backend';
+const LEGACY_CONSENSUS_KEY = 'scanner_consensus_settings';
+
+const DECODER_BACKENDS: DecoderBackendId[] = ['AUTO', 'NATIVE', 'ZXING'];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  feedbackLockMs: 600,
+  sameCodeThrottleMs: 1000,
+  autoZoom: 2.0,
+  rotateRoi: true,
+  resolutionLadder: ['FHD', 'HD'],
+  ttsRate: 1.2,
+  feedbackProfileId: DEFAULT_FEEDBACK_PROFILE.id,
+  feedbackOutcomes: DEFAULT_FEEDBACK_PROFILE.outcomes,
+  feedbackVolume: 1,
+  enforceCheckDigit: true,
+  decoderBackend: 'AUTO',
+  consensus: DEFAULT_CONSENSUS_SETTINGS,
+  locale: detectLocale(),
+};
+
+export const RESOLUTIONS: Record<ResolutionStep, { width: number; height: number; label: string }> = {
+  FHD: { width: 1920, height: 1080, label: 'FHD (1080p)' },
+  HD: { width: 1280, height: 720, label: 'HD (720p)' },
+  SD: { width: 640, height: 480, label: 'SD (480p)' },
+};
+
+const loadLegacySettings = (): Partial<AppSettings> => {
+  const backend = localStorage.getItem(LEGACY_DECODER_BACKEND_KEY);
+  const consensus = localStorage.getItem(LEGACY_CONSENSUS_KEY);
+  return {
+    ...(backend ? { decoderBackend: backend as DecoderBackendId } : {}),
+    ...(consensus ? { consensus: JSON.parse(consensus) } : {}),
+  };
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const parsed = { ...loadLegacySettings(), ...(saved ? JSON.parse(saved) : {}) };
+    // Outcomes added in later versions fall back to their defaults
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      feedbackOutcomes: { ...DEFAULT_SETTINGS.feedbackOutcomes, ...parsed.feedbackOutcomes },
+      consensus: { ...DEFAULT_SETTINGS.consensus, ...parsed.consensus },
+      decoderBackend: DECODER_BACKENDS.includes(parsed.decoderBackend) ? parsed.decoderBackend : DEFAULT_SETTINGS.decoderBackend,
+      // A language removed from the build falls back to the detected one
+      locale: parsed.locale in LOCALES ? parsed.locale : DEFAULT_SETTINGS.locale,
+    };
+  } catch (e) {
+    console.error("Failed to parse settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const saveSettings = (next: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  localStorage.removeItem(LEGACY_DECODER_BACKEND_KEY);
+  localStorage.removeItem(LEGACY_CONSENSUS_KEY);
+};
+
+type SettingsListener = (settings: AppSettings) => void;
+
+let settings: AppSettings = loadSettings();
+const listeners = new Set<SettingsListener>();
+
+export const getSettings = (): AppSettings => settings;
+
+export const updateSettings = (patch: Partial<AppSettings>) => {
+  settings = { ...settings, ...patch };
+  saveSettings(settings);
+  listeners.forEach(l => l(settings));
+};
+
+// The UI language is not a tunable: resetting keeps it
+export const resetSettings = () => updateSettings({ ...DEFAULT_SETTINGS, locale: settings.locale });
+
+// Returns an unsubscribe function
+export const subscribeSettings = (listener: SettingsListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,344 @@
+import { useEffect, useState } from 'react';
+import { OutboxItem, Route, ScannedRecord, SyncStatus } from '../types';
+import { migrateLegacyMarkers, closeStaleRoutes } from './routeService';
+import { t } from './i18nService';
+
+// IndexedDB-backed persistence: records are appended one by one instead of
+// re-serializing the whole log into localStorage on every scan.
+
+const DB_NAME = 'itf_scanner';
+const RECORD_STORE = 'records';
+const ROUTE_STORE = 'routes';
+const META_STORE = 'meta';
+const OUTBOX_STORE = 'outbox';
+
+const LEGACY_LOG_KEY = 'itf_scanner_logs';
+const LEGACY_ROUTE_KEY = 'itf_scanner_routes';
+const LEGACY_IMPORTED_FLAG = 'legacy_local_storage_imported';
+
+/**
+ * Schema migrations, indexed by the version they upgrade TO.
+ * Never edit a released step; append a new one and the version follows.
+ */
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: records / routes / meta stores
+  (db) => {
+    const records = db.createObjectStore(RECORD_STORE, { keyPath: 'id' });
+    records.createIndex('routeId', 'routeId');
+    records.createIndex('timestamp', 'timestamp');
+
+    const routes = db.createObjectStore(ROUTE_STORE, { keyPath: 'id' });
+    routes.createIndex('startedAt', 'startedAt');
+
+    db.createObjectStore(META_STORE);
+  },
+  // v2: upload queue
+  (db) => {
+    const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+    outbox.createIndex('nextAttemptAt', 'nextAttemptAt');
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+export class StorageError extends Error {
+  readonly isQuota: boolean;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+    this.isQuota = cause instanceof DOMException && cause.name === 'QuotaExceededError';
+  }
+}
+
+// Operator-facing message for a failed write
+export const describeStorageError = (err: unknown): string => {
+  if (err instanceof StorageError && err.isQuota) {
+    return t('storage.quota');
+  }
+  return t('storage.failed');
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new StorageError('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        MIGRATIONS[v](db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError('Failed to open database', request.error));
+    request.onblocked = () => console.warn("Database upgrade blocked by another tab");
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves once it commits (quota errors surface on commit)
+const withStore = async <T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(new StorageError('Transaction aborted', tx.error));
+    tx.onerror = () => reject(new StorageError('Transaction failed', tx.error));
+  });
+  // If `work` throws, the abort that follows is not the error to report
+  done.catch(() => {});
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+// --- Records ---
+
+// Told after every committed write to the record store, so queries can re-run
+const recordListeners = new Set<() => void>();
+
+const notifyRecords = <T>(write: Promise<T>): Promise<T> =>
+  write.then(result => {
+    recordListeners.forEach(listener => listener());
+    return result;
+  });
+
+export const subscribeRecords = (listener: () => void) => {
+  recordListeners.add(listener);
+  return () => { recordListeners.delete(listener); };
+};
+
+export const appendRecord = (record: ScannedRecord) =>
+  notifyRecords(withStore(RECORD_STORE, 'readwrite', tx => { tx.objectStore(RECORD_STORE).put(record); }));
+
+export const putRecords = (records: ScannedRecord[]) =>
+  notifyRecords(withStore(RECORD_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(RECORD_STORE);
+    records.forEach(r => store.put(r));
+  }));
+
+// Newest-first, matching the in-memory log order
+const newestFirst = (records: ScannedRecord[]) => records.sort((a, b) => b.timestamp - a.timestamp);
+
+export const getAllRecords = () =>
+  withStore(RECORD_STORE, 'readonly', async tx =>
+    newestFirst(await promisify(tx.objectStore(RECORD_STORE).getAll() as IDBRequest<ScannedRecord[]>))
+  );
+
+export const getRecordsByRoute = (routeId: string) =>
+  withStore(RECORD_STORE, 'readonly', async tx =>
+    newestFirst(await promisify(
+      tx.objectStore(RECORD_STORE).index('routeId').getAll(routeId) as IDBRequest<ScannedRecord[]>
+    ))
+  );
+
+// Inclusive range of epoch milliseconds
+export const getRecordsByDateRange = (from: number, to: number) =>
+  withStore(RECORD_STORE, 'readonly', async tx =>
+    newestFirst(await promisify(
+      tx.objectStore(RECORD_STORE).index('timestamp').getAll(IDBKeyRange.bound(from, to)) as IDBRequest<ScannedRecord[]>
+    ))
+  );
+
+/**
+ * Records of the given routes (null = every route) within an inclusive date
+ * range, newest first. Reads through the route or timestamp index instead of
+ * loading the whole store.
+ */
+export const queryRecords = async (routeIds: string[] | null, from: number | null, to: number | null) => {
+  const inRange = (r: ScannedRecord) => (from === null || r.timestamp >= from) && (to === null || r.timestamp <= to);
+  if (routeIds) {
+    const perRoute = await Promise.all(routeIds.map(getRecordsByRoute));
+    return newestFirst(perRoute.flat().filter(inRange));
+  }
+  if (from !== null || to !== null) return getRecordsByDateRange(from ?? -Infinity, to ?? Infinity);
+  return getAllRecords();
+};
+
+/**
+ * Stored records of one route and/or date range, kept current as records are
+ * written. null while loading, and when there is nothing to narrow by (the
+ * caller already holds every record then).
+ */
+export const useRecordQuery = (routeId: string | null, from: number | null, to: number | null): ScannedRecord[] | null => {
+  const [records, setRecords] = useState<ScannedRecord[] | null>(null);
+  const narrowed = routeId !== null || from !== null || to !== null;
+
+  useEffect(() => {
+    setRecords(null);
+    if (!narrowed) return;
+
+    let cancelled = false;
+    const load = () => {
+      queryRecords(routeId === null ? null : [routeId], from, to)
+        .then(result => { if (!cancelled) setRecords(result); })
+        .catch(err => console.error("Record query failed", err));
+    };
+    load();
+    const unsubscribe = subscribeRecords(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [narrowed, routeId, from, to]);
+
+  return records;
+};
+
+// Updates the sync state of stored records in place; returns the records that exist
+export const setRecordsSyncStatus = (ids: string[], syncStatus: SyncStatus) =>
+  notifyRecords(withStore(RECORD_STORE, 'readwrite', async tx => {
+    const store = tx.objectStore(RECORD_STORE);
+    const updated: ScannedRecord[] = [];
+    for (const id of ids) {
+      const record = await promisify(store.get(id) as IDBRequest<ScannedRecord | undefined>);
+      if (!record) continue;
+      const next = { ...record, syncStatus };
+      store.put(next);
+      updated.push(next);
+    }
+    return updated;
+  }));
+
+export const deleteRecords = (ids: string[]) =>
+  notifyRecords(withStore(RECORD_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(RECORD_STORE);
+    ids.forEach(id => store.delete(id));
+  }));
+
+export const clearRecords = () =>
+  notifyRecords(withStore(RECORD_STORE, 'readwrite', tx => { tx.objectStore(RECORD_STORE).clear(); }));
+
+// --- Routes ---
+
+export const putRoute = (route: Route) =>
+  withStore(ROUTE_STORE, 'readwrite', tx => { tx.objectStore(ROUTE_STORE).put(route); });
+
+export const putRoutes = (routes: Route[]) =>
+  withStore(ROUTE_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(ROUTE_STORE);
+    routes.forEach(r => store.put(r));
+  });
+
+export const getAllRoutes = () =>
+  withStore(ROUTE_STORE, 'readonly', async tx =>
+    (await promisify(tx.objectStore(ROUTE_STORE).index('startedAt').getAll() as IDBRequest<Route[]>))
+  );
+
+export const deleteRoutes = (ids: string[]) =>
+  withStore(ROUTE_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(ROUTE_STORE);
+    ids.forEach(id => store.delete(id));
+  });
+
+// --- Outbox ---
+
+export const putOutboxItems = (items: OutboxItem[]) =>
+  withStore(OUTBOX_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(OUTBOX_STORE);
+    items.forEach(item => store.put(item));
+  });
+
+export const getAllOutboxItems = () =>
+  withStore(OUTBOX_STORE, 'readonly', tx =>
+    promisify(tx.objectStore(OUTBOX_STORE).index('nextAttemptAt').getAll() as IDBRequest<OutboxItem[]>)
+  );
+
+export const deleteOutboxItems = (ids: string[]) =>
+  withStore(OUTBOX_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(OUTBOX_STORE);
+    ids.forEach(id => store.delete(id));
+  });
+
+// Applies `change` to the items whose stored revision is still the one that was read;
+// items re-queued in the meantime keep their newer payload. Returns the changed items.
+const changeOutboxItemsIfUnchanged = (items: OutboxItem[], change: (store: IDBObjectStore, item: OutboxItem) => void) =>
+  withStore(OUTBOX_STORE, 'readwrite', async tx => {
+    const store = tx.objectStore(OUTBOX_STORE);
+    const changed: OutboxItem[] = [];
+    for (const item of items) {
+      const stored = await promisify(store.get(item.id) as IDBRequest<OutboxItem | undefined>);
+      if (!stored || stored.revision !== item.revision) continue;
+      change(store, item);
+      changed.push(item);
+    }
+    return changed;
+  });
+
+// Removes uploaded items, unless they were queued again during the upload
+export const deleteSentOutboxItems = (items: OutboxItem[]) =>
+  changeOutboxItemsIfUnchanged(items, (store, item) => store.delete(item.id));
+
+// Saves retry state of items, unless they were queued again during the upload
+export const putOutboxItemsIfUnchanged = (items: OutboxItem[]) =>
+  changeOutboxItemsIfUnchanged(items, (store, item) => store.put(item));
+
+// --- Legacy import ---
+
+/**
+ * One-time import of the localStorage data written by earlier versions
+ * (logs + routes, including legacy INFO route markers). localStorage is
+ * only cleared after the import transaction has committed.
+ */
+let legacyImport: Promise<void> | null = null;
+
+export const importLegacyLocalStorage = (): Promise<void> => {
+  // Share one run between concurrent callers so routes are not created twice
+  if (!legacyImport) {
+    legacyImport = runLegacyImport();
+    legacyImport.catch(() => { legacyImport = null; });
+  }
+  return legacyImport;
+};
+
+const runLegacyImport = async (): Promise<void> => {
+  const imported = await withStore(META_STORE, 'readonly', tx =>
+    promisify(tx.objectStore(META_STORE).get(LEGACY_IMPORTED_FLAG))
+  );
+  if (imported) return;
+
+  let logs: ScannedRecord[] = [];
+  let routes: Route[] = [];
+  try {
+    logs = JSON.parse(localStorage.getItem(LEGACY_LOG_KEY) || '[]');
+    routes = JSON.parse(localStorage.getItem(LEGACY_ROUTE_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to parse legacy localStorage data", e);
+  }
+
+  const migration = migrateLegacyMarkers(logs);
+
+  await withStore([RECORD_STORE, ROUTE_STORE, META_STORE], 'readwrite', tx => {
+    const recordStore = tx.objectStore(RECORD_STORE);
+    const routeStore = tx.objectStore(ROUTE_STORE);
+    migration.logs.forEach(r => recordStore.put(r));
+    closeStaleRoutes([...routes, ...migration.routes]).forEach(r => routeStore.put(r));
+    tx.objectStore(META_STORE).put(Date.now(), LEGACY_IMPORTED_FLAG);
+  });
+
+  localStorage.removeItem(LEGACY_LOG_KEY);
+  localStorage.removeItem(LEGACY_ROUTE_KEY);
+};
@@ -0,0 +1,151 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Route, ScannedRecord } from '../types';
+
+const NOW = new Date(2025, 0, 6, 9, 0).getTime();
+const route: Route = { id: 'r1', name: 'Dock 3', startedAt: NOW, status: 'ACTIVE' };
+const record = (id: string, patch: Partial<ScannedRecord> = {}): ScannedRecord =>
+  ({ id, type: 'SCAN', code: '15400141288763', timestamp: NOW, routeId: 'r1', syncStatus: 'PENDING', ...patch });
+
+const fetchMock = vi.fn<typeof fetch>();
+const ok = () => new Response('{}', { status: 200 });
+const sentBodies = () => fetchMock.mock.calls.map(([, init]) => JSON.parse(String(init?.body)));
+
+// Sync and storage keep module state (settings, open database): start each test from fresh modules and an empty database
+const importServices = async (batchSize = 50) => {
+  vi.resetModules();
+  localStorage.setItem('scanner_sync_settings', JSON.stringify({ endpoint: 'https://example.test/sync', batchSize }));
+  const storage = await import('./storageService');
+  const sync = await import('./syncService');
+  const updates: ScannedRecord[][] = [];
+  stop = sync.startSync(records => updates.push(records));
+  return { storage, sync, updates };
+};
+
+let stop: (() => void) | null = null;
+
+beforeEach(() => {
+  // Only the sync timers: IndexedDB callbacks keep running on the real clock
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'], now: NOW });
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockReset();
+  localStorage.clear();
+});
+
+afterEach(() => {
+  stop?.();
+  stop = null;
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('flushOutbox', () => {
+  it('sends routes before records in batches and marks uploaded records SYNCED', async () => {
+    const { storage, sync, updates } = await importServices(2);
+    await storage.putRecords([record('a'), record('b')]);
+    await sync.enqueueRecord(record('a'));
+    await sync.enqueueRecord(record('b'));
+    await sync.enqueueRoute(route);
+    fetchMock.mockImplementation(async () => ok());
+
+    await sync.flushOutbox();
+
+    expect(sentBodies().map(body => [body.routes.map((r: Route) => r.id), body.records.map((r: ScannedRecord) => r.id)]))
+      .toEqual([[['r1'], ['a']], [[], ['b']]]);
+    expect(await storage.getAllOutboxItems()).toEqual([]);
+    expect(updates.flat().map(r => [r.id, r.syncStatus])).toEqual([['a', 'SYNCED'], ['b', 'SYNCED']]);
+  });
+
+  it('keeps items queued on a retryable error and backs off', async () => {
+    const { storage, sync, updates } = await importServices();
+    await sync.enqueueRecord(record('a'));
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 503 }));
+
+    await sync.flushOutbox();
+    expect(await storage.getAllOutboxItems()).toMatchObject([
+      { id: 'a', status: 'PENDING', attempts: 1, nextAttemptAt: NOW + 2000, lastError: 'HTTP 503' },
+    ]);
+    expect(updates).toEqual([]);
+
+    // Not due yet, unless the connection just came back
+    await sync.flushOutbox();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await sync.flushOutbox(true);
+    expect(await storage.getAllOutboxItems()).toMatchObject([
+      { status: 'PENDING', attempts: 2, nextAttemptAt: NOW + 4000, lastError: 'Failed to fetch' },
+    ]);
+  });
+
+  it('parks items as FAILED on an error that will not fix itself, until retried', async () => {
+    const { storage, sync, updates } = await importServices();
+    await storage.putRecords([record('a')]);
+    await sync.enqueueRecord(record('a'));
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 400 }));
+
+    await sync.flushOutbox();
+    expect(await storage.getAllOutboxItems()).toMatchObject([{ status: 'FAILED', lastError: 'HTTP 400' }]);
+    expect(updates.flat().map(r => r.syncStatus)).toEqual(['FAILED']);
+
+    await sync.flushOutbox(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockImplementation(async () => ok());
+    await sync.retryFailed();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await storage.getAllOutboxItems()).toEqual([]);
+    expect(updates.flat().map(r => r.syncStatus)).toEqual(['FAILED', 'PENDING', 'SYNCED']);
+  });
+});
+
+describe('outbox revisions', () => {
+  it('keeps a record queued again during its upload for the next flush', async () => {
+    const { storage, sync, updates } = await importServices();
+    await storage.putRecords([record('a')]);
+    await sync.enqueueRecord(record('a'));
+    // Count mode bumps the quantity while the first payload is on the wire
+    fetchMock.mockImplementationOnce(async () => {
+      await sync.enqueueRecord(record('a', { quantity: 2 }));
+      return ok();
+    });
+
+    await sync.flushOutbox();
+    expect(await storage.getAllOutboxItems()).toMatchObject([
+      { id: 'a', status: 'PENDING', attempts: 0, payload: { quantity: 2 } },
+    ]);
+    expect(updates).toEqual([]);
+
+    fetchMock.mockImplementation(async () => ok());
+    await sync.flushOutbox();
+    expect(sentBodies()[1].records[0].quantity).toBe(2);
+    expect(await storage.getAllOutboxItems()).toEqual([]);
+  });
+
+  it('does not overwrite a re-queued item with the retry state of a failed upload', async () => {
+    const { storage, sync } = await importServices();
+    await sync.enqueueRecord(record('a'));
+    fetchMock.mockImplementationOnce(async () => {
+      await sync.enqueueRecord(record('a', { code: '10012345678902' }));
+      return new Response('', { status: 400 });
+    });
+
+    await sync.flushOutbox();
+    expect(await storage.getAllOutboxItems()).toMatchObject([
+      { status: 'PENDING', attempts: 0, payload: { code: '10012345678902' } },
+    ]);
+  });
+
+  it('forgets records deleted before they were uploaded', async () => {
+    const { storage, sync } = await importServices();
+    await sync.enqueueRoute(route);
+    await sync.enqueueRecord(record('a'));
+
+    await sync.discardQueuedRecords(['a', 'r1']);
+    await sync.flushOutbox();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await storage.getAllOutboxItems()).toEqual([]);
+  });
+});
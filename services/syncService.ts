@@ -0,0 +1,211 @@
+import { OutboxItem, Route, ScannedRecord, SyncSettings, SyncStatus } from '../types';
+import {
+  putOutboxItems, getAllOutboxItems, deleteOutboxItems, deleteSentOutboxItems, putOutboxItemsIfUnchanged, setRecordsSyncStatus
+} from './storageService';
+
+// Offline-first upload queue: every accepted record / route change is written
+// to the IndexedDB outbox first and POSTed in batches whenever we are online.
+
+const SYNC_SETTINGS_KEY = 'scanner_sync_settings';
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  endpoint: '',
+  batchSize: 50,
+};
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000; // Retryable errors keep trying at this pace however long we are offline
+const REQUEST_TIMEOUT_MS = 15000;
+
+export const loadSyncSettings = (): SyncSettings => {
+  try {
+    const saved = localStorage.getItem(SYNC_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SYNC_SETTINGS;
+  } catch (e) {
+    console.error("Failed to parse sync settings", e);
+    return DEFAULT_SYNC_SETTINGS;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings) => {
+  localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Records whose sync state changed, so the UI can patch its copy
+type SyncListener = (records: ScannedRecord[]) => void;
+
+let settings: SyncSettings = loadSyncSettings();
+let listener: SyncListener | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
+
+const backoff = (attempts: number) => Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+
+// 408 / 429 / 5xx are worth retrying, other HTTP errors will not fix themselves
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+class UploadError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const newItem = (kind: OutboxItem['kind'], payload: ScannedRecord | Route): OutboxItem => ({
+  id: payload.id,
+  kind,
+  payload,
+  status: 'PENDING',
+  attempts: 0,
+  nextAttemptAt: Date.now(),
+  revision: crypto.randomUUID(),
+});
+
+export const enqueueRecord = async (record: ScannedRecord) => {
+  await putOutboxItems([newItem('RECORD', record)]);
+  scheduleFlush(0);
+};
+
+// Route start and end both enqueue the route; the later payload replaces the earlier one
+export const enqueueRoute = async (route: Route) => {
+  await putOutboxItems([newItem('ROUTE', route)]);
+  scheduleFlush(0);
+};
+
+// Records (or routes) deleted before they were uploaded never leave the device
+export const discardQueuedRecords = (ids: string[]) => deleteOutboxItems(ids);
+
+const upload = async (batch: OutboxItem[]) => {
+  const body = {
+    routes: batch.filter(i => i.kind === 'ROUTE').map(i => i.payload),
+    records: batch.filter(i => i.kind === 'RECORD').map(i => i.payload),
+  };
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(settings.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!res.ok) throw new UploadError(`HTTP ${res.status}`, isRetryableStatus(res.status));
+  } catch (e) {
+    if (e instanceof UploadError) throw e;
+    // Network failure / timeout: we are probably offline
+    throw new UploadError(e instanceof Error ? e.message : String(e), true);
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const notify = async (ids: string[], status: SyncStatus) => {
+  if (ids.length === 0) return;
+  const updated = await setRecordsSyncStatus(ids, status);
+  listener?.(updated);
+};
+
+/**
+ * Sends every due PENDING item in batches. Routes go before records so the
+ * backend knows a route before its scans arrive. Stops at the first failed
+ * batch and reschedules with exponential backoff. `ignoreBackoff` sends
+ * every PENDING item now, e.g. when the connection is back.
+ */
+export const flushOutbox = async (ignoreBackoff = false): Promise<void> => {
+  if (flushing || !settings.endpoint) return;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+  flushing = true;
+  try {
+    const now = Date.now();
+    const items = await getAllOutboxItems();
+    const due = items
+      .filter(i => i.status === 'PENDING' && (ignoreBackoff || i.nextAttemptAt <= now))
+      .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'ROUTE' ? -1 : 1));
+
+    for (let i = 0; i < due.length; i += settings.batchSize) {
+      const batch = due.slice(i, i + settings.batchSize);
+
+      try {
+        await upload(batch);
+        // Items queued again while uploading (quantity +1, edits, route end) stay for the next flush
+        const sent = await deleteSentOutboxItems(batch);
+        await notify(sent.filter(item => item.kind === 'RECORD').map(item => item.id), 'SYNCED');
+      } catch (e) {
+        const err = e instanceof UploadError ? e : new UploadError(String(e), true);
+        const failed = batch.map(item => {
+          const attempts = item.attempts + 1;
+          return {
+            ...item,
+            attempts,
+            // FAILED is only for errors that won't fix themselves; those wait for a manual retry
+            status: err.retryable ? 'PENDING' : 'FAILED',
+            nextAttemptAt: Date.now() + backoff(attempts),
+            lastError: err.message,
+          } as OutboxItem;
+        });
+        const saved = await putOutboxItemsIfUnchanged(failed);
+        await notify(saved.filter(f => f.kind === 'RECORD' && f.status === 'FAILED').map(f => f.id), 'FAILED');
+        break;
+      }
+    }
+  } catch (e) {
+    console.error("Sync flush failed", e);
+  } finally {
+    flushing = false;
+  }
+
+  // Wake up for the next due item (backoff or items queued during the flush)
+  const remaining = await getAllOutboxItems().catch(() => [] as OutboxItem[]);
+  const next = remaining.filter(i => i.status === 'PENDING').map(i => i.nextAttemptAt);
+  if (next.length > 0) scheduleFlush(Math.max(0, Math.min(...next) - Date.now()));
+};
+
+const scheduleFlush = (delay: number) => {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    flushOutbox();
+  }, delay);
+};
+
+// Puts FAILED items back in the queue and tries immediately
+export const retryFailed = async () => {
+  const items = await getAllOutboxItems();
+  const failed = items.filter(i => i.status === 'FAILED');
+  if (failed.length > 0) {
+    await putOutboxItems(failed.map(i => ({ ...i, status: 'PENDING', attempts: 0, nextAttemptAt: Date.now() })));
+    await notify(failed.filter(i => i.kind === 'RECORD').map(i => i.id), 'PENDING');
+  }
+  await flushOutbox();
+};
+
+export const updateSyncSettings = (next: SyncSettings) => {
+  settings = next;
+  saveSyncSettings(next);
+  scheduleFlush(0);
+};
+
+/**
+ * Starts background syncing. Flushes now, whenever the browser comes back
+ * online, and on each backoff timer. Returns a stop function.
+ */
+export const startSync = (onRecordsUpdated: SyncListener) => {
+  listener = onRecordsUpdated;
+  // Coming back online is the moment to send, not the end of a backoff started while offline
+  const handleOnline = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    flushOutbox(true);
+  };
+  window.addEventListener('online', handleOnline);
+  scheduleFlush(0);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (timer) clearTimeout(timer);
+    timer = null;
+    listener = null;
+  };
+};
@@ -0,0 +1,78 @@
+import { DecoderTelemetry } from '../types';
+
+// Live-decoder numbers from the Scanner loop (latency, frames per second),
+// kept per route and day so the dashboard can show them next to the records.
+
+const TELEMETRY_KEY = 'scanner_telemetry';
+
+// Frames further apart than this mean the loop was paused (feedback lock, hidden tab)
+const MAX_FRAME_GAP_MS = 1000;
+const SAVE_DELAY_MS = 2000;
+
+let buckets: Record<string, DecoderTelemetry> | null = null;
+let lastFrameAt: number | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Local calendar day, e.g. '2025-03-14'
+export const toDayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const loadAll = (): Record<string, DecoderTelemetry> => {
+  if (buckets) return buckets;
+  try {
+    const saved = localStorage.getItem(TELEMETRY_KEY);
+    buckets = saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to parse decoder telemetry", e);
+    buckets = {};
+  }
+  return buckets!;
+};
+
+const saveAll = () => {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+  try {
+    localStorage.setItem(TELEMETRY_KEY, JSON.stringify(loadAll()));
+  } catch (e) {
+    console.error("Failed to save decoder telemetry", e);
+  }
+};
+
+// Frames arrive many times a second: batch the writes
+const scheduleSave = () => {
+  if (!saveTimer) saveTimer = setTimeout(saveAll, SAVE_DELAY_MS);
+};
+
+/**
+ * Records one frame handed to the live decoder. `latencyMs` is how long the
+ * decoder took; `decoded` whether it found a code in the frame.
+ */
+export const recordDecoderFrame = (routeId: string | null, latencyMs: number, decoded: boolean) => {
+  const now = Date.now();
+  const day = toDayKey(now);
+  const key = `${routeId || ''}|${day}`;
+  const all = loadAll();
+  const bucket = all[key] || (all[key] = { routeId, day, frames: 0, decodedFrames: 0, latencyTotalMs: 0, activeMs: 0 });
+
+  bucket.frames += 1;
+  if (decoded) bucket.decodedFrames += 1;
+  bucket.latencyTotalMs += latencyMs;
+  if (lastFrameAt !== null && now - lastFrameAt < MAX_FRAME_GAP_MS) bucket.activeMs += now - lastFrameAt;
+  lastFrameAt = now;
+
+  scheduleSave();
+};
+
+export const loadTelemetry = (): DecoderTelemetry[] => Object.values(loadAll());
+
+// Drops the numbers of deleted routes (null = route-less frames)
+export const deleteTelemetry = (routeIds: Array<string | null>) => {
+  const all = loadAll();
+  for (const [key, bucket] of Object.entries(all)) {
+    if (routeIds.includes(bucket.routeId)) delete all[key];
+  }
+  saveAll();
+};
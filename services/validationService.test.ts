@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationProfile } from '../types';
+import { hasValidGs1CheckDigit } from './gs1Service';
+import { getProfile } from './profileService';
+import { checkProfileRules, validateCode } from './validationService';
+
+const none = new Set<string>();
+
+describe('hasValidGs1CheckDigit', () => {
+  it.each([
+    ['GTIN-8', '96385074'],
+    ['GTIN-12', '036000291452'],
+    ['GTIN-13', '4006381333931'],
+    ['GTIN-14', '10012345678902'],
+    ['ITF-14', '15400141288763'],
+    ['SSCC', '106141411234567897'],
+  ])('accepts a valid %s', (_, code) => {
+    expect(hasValidGs1CheckDigit(code)).toBe(true);
+  });
+
+  it.each([
+    ['GTIN-8', '96385073'],
+    ['GTIN-12', '036000291450'],
+    ['GTIN-13', '4006381333932'],
+    ['GTIN-14', '10012345678901'],
+  ])('rejects a %s with a wrong check digit', (_, code) => {
+    expect(hasValidGs1CheckDigit(code)).toBe(false);
+  });
+
+  it('rejects non-numeric and too short input', () => {
+    expect(hasValidGs1CheckDigit('1001234567890A')).toBe(false);
+    expect(hasValidGs1CheckDigit('7')).toBe(false);
+    expect(hasValidGs1CheckDigit('')).toBe(false);
+  });
+});
+
+describe('checkProfileRules', () => {
+  const itf14 = getProfile('itf14');
+
+  it('checks format, length and check digit in that order', () => {
+    expect(checkProfileRules('15400141288763', itf14, true)).toBeNull();
+    expect(checkProfileRules('1540014128876A', itf14, true)).toBe('FORMAT');
+    expect(checkProfileRules('4006381333931', itf14, true)).toBe('LENGTH');
+    expect(checkProfileRules('15400141288764', itf14, true)).toBe('CHECK_DIGIT');
+  });
+
+  it('skips the check digit when it is not enforced', () => {
+    expect(checkProfileRules('15400141288764', itf14, false)).toBeNull();
+  });
+
+  it('applies prefixes and patterns', () => {
+    const profile: ValidationProfile = { ...itf14, prefixes: ['1'], pattern: '^\\d{2}0' };
+    expect(checkProfileRules('10012345678902', profile, true)).toBeNull();
+    expect(checkProfileRules('05400141288766', profile, true)).toBe('PATTERN');
+    expect(checkProfileRules('15400141288763', profile, true)).toBe('PATTERN');
+  });
+});
+
+describe('validateCode', () => {
+  it('accepts a valid ITF-14 read, trimmed', () => {
+    expect(validateCode(' 15400141288763 ', 'ITF', getProfile('itf14'), none, true))
+      .toEqual({ code: '15400141288763', reason: null, gs1: undefined });
+  });
+
+  it('rejects a symbology the profile does not decode', () => {
+    expect(validateCode('4006381333931', 'EAN_13', getProfile('itf14'), none, true).reason).toBe('SYMBOLOGY');
+  });
+
+  it('accepts any symbology when the format is unknown', () => {
+    expect(validateCode('4006381333931', null, getProfile('ean13'), none, true).reason).toBeNull();
+  });
+
+  it('rejects a code already scanned', () => {
+    const scanned = new Set(['15400141288763']);
+    expect(validateCode('15400141288763', 'ITF', getProfile('itf14'), scanned, true).reason).toBe('DUPLICATE');
+  });
+
+  it('reports rule violations before duplicates', () => {
+    const scanned = new Set(['15400141288764']);
+    expect(validateCode('15400141288764', 'ITF', getProfile('itf14'), scanned, true).reason).toBe('CHECK_DIGIT');
+  });
+});
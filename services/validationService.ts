@@ -0,0 +1,87 @@
+import { Gs1Element, MessageKey, RejectionReason, ValidationProfile } from '../types';
+import { hasValidGs1CheckDigit, parseGs1ElementString, formatGs1Hri, getGtin } from './gs1Service';
+
+// Pure validation rules for scanned codes (no React, no DOM) so they can be unit-tested.
+
+// Catalog keys; the UI translates them with t()
+export const REJECTION_MESSAGES: Record<RejectionReason, MessageKey> = {
+  SYMBOLOGY: 'rejection.SYMBOLOGY',
+  FORMAT: 'rejection.FORMAT',
+  LENGTH: 'rejection.LENGTH',
+  PATTERN: 'rejection.PATTERN',
+  GS1: 'rejection.GS1',
+  CHECK_DIGIT: 'rejection.CHECK_DIGIT',
+  DUPLICATE: 'rejection.DUPLICATE',
+};
+
+export interface ValidationResult {
+  code: string;                    // Code that was validated (the GTIN / HRI string for GS1 profiles)
+  reason: RejectionReason | null;  // null when the code is accepted
+  gs1?: Gs1Element[];              // Parsed Application Identifiers for GS1 profiles
+}
+
+const reject = (code: string, reason: RejectionReason, gs1?: Gs1Element[]): ValidationResult => ({ code, reason, gs1 });
+
+// Anything that can answer "was this code already scanned?" (a plain Set works in tests)
+export type DuplicateLookup = Pick<ReadonlySet<string>, 'has'>;
+
+const matchesPattern = (code: string, pattern: string) => {
+  try {
+    return new RegExp(pattern).test(code);
+  } catch (e) {
+    console.error("Invalid profile pattern", pattern, e);
+    return false;
+  }
+};
+
+// Structural rules of a profile: format -> length -> prefix/pattern -> check digit
+// (the check digit only when `enforceCheckDigit`, the operator's setting)
+export const checkProfileRules = (
+  code: string,
+  profile: ValidationProfile,
+  enforceCheckDigit: boolean
+): RejectionReason | null => {
+  if (!code || (profile.numericOnly && !/^\d+$/.test(code))) return 'FORMAT';
+  if (profile.lengths.length > 0 && !profile.lengths.includes(code.length)) return 'LENGTH';
+  if (profile.prefixes && profile.prefixes.length > 0 && !profile.prefixes.some(p => code.startsWith(p))) return 'PATTERN';
+  if (profile.pattern && !matchesPattern(code, profile.pattern)) return 'PATTERN';
+  if (profile.checkDigit === 'GS1_MOD10' && enforceCheckDigit && !hasValidGs1CheckDigit(code)) {
+    return 'CHECK_DIGIT';
+  }
+  return null;
+};
+
+/**
+ * Full validation chain: symbology -> GS1 parsing (GS1 profiles) -> profile rules -> duplicate.
+ * `format` is the decoded ZXing format name; pass null when unknown.
+ * In GTIN mode the GTIN from AI (01) is what gets checked, so duplicate and
+ * manifest rules treat it exactly like a plain ITF-14 read.
+ */
+export const validateCode = (
+  rawCode: string,
+  format: string | null,
+  profile: ValidationProfile,
+  scannedCodes: DuplicateLookup,
+  enforceCheckDigit: boolean
+): ValidationResult => {
+  let code = rawCode.trim();
+
+  if (format && !profile.symbologies.includes(format)) return reject(code, 'SYMBOLOGY');
+
+  let gs1: Gs1Element[] | undefined;
+  if (profile.gs1Mode) {
+    gs1 = parseGs1ElementString(code) || undefined;
+    if (!gs1) return reject(code, 'GS1');
+
+    const gtin = getGtin(gs1);
+    if (profile.gs1Mode === 'GTIN' && !gtin) return reject(code, 'GS1', gs1);
+    code = profile.gs1Mode === 'GTIN' ? gtin! : formatGs1Hri(gs1);
+  }
+
+  const ruleViolation = checkProfileRules(code, profile, enforceCheckDigit);
+  if (ruleViolation) return reject(code, ruleViolation, gs1);
+
+  if (scannedCodes.has(code)) return reject(code, 'DUPLICATE', gs1);
+
+  return { code, reason: null, gs1 };
+};
@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+// Same Tailwind 3 the CDN script provided, compiled into the bundle so a cold start works offline
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -1,4 +1,6 @@
-export type RecordType = 'SCAN' | 'INFO';
+import type { ko } from './locales/ko';
+
+export type RecordType = 'SCAN' | 'INFO' | 'REJECTED'; // REJECTED: a refused read kept for auditing
 
 export interface ScannedRecord {
   id: string;
@@ -6,9 +8,159 @@ export interface ScannedRecord {
   code: string;       // For INFO type, this holds the message text
   format?: string;
   timestamp: number;
+  routeId?: string;   // Route the record was captured in (absent for legacy / route-less records)
+  syncStatus?: SyncStatus; // Upload state (absent for records captured before sync existed)
+  gs1?: Gs1Element[]; // Parsed GS1 Application Identifiers (GS1-128 / DataMatrix labels)
+  quantity?: number;  // Identical cases counted on this record in count mode (absent = 1)
+  manual?: boolean;   // Typed in (or corrected) by the operator rather than decoded
+  rejection?: RejectionReason; // Why a REJECTED record was refused
+}
+
+export interface Gs1Element {
+  ai: string;    // Application Identifier, e.g. '01'
+  value: string;
+}
+
+export type RouteStatus = 'ACTIVE' | 'COMPLETED' | 'INTERRUPTED';
+
+export interface Route {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt?: number;
+  status: RouteStatus;
+  manifest?: string[]; // Expected codes imported for this route
+  profileId?: string;  // Validation profile (absent = default ITF-14)
+  countMode?: boolean; // Repeat scans add to the existing record's quantity instead of being rejected
+}
+
+export type CheckDigitAlgorithm = 'GS1_MOD10' | 'NONE';
+
+export interface ValidationProfile {
+  id: string;
+  name: MessageKey;
+  symbologies: string[];  // ZXing BarcodeFormat names, e.g. 'ITF', 'EAN_13'
+  lengths: number[];      // Allowed lengths (empty = any)
+  numericOnly: boolean;
+  prefixes?: string[];    // Code must start with one of these
+  pattern?: string;       // Extra RegExp the whole code must match
+  checkDigit: CheckDigitAlgorithm;
+  gs1Mode?: 'GTIN' | 'FULL'; // Parse GS1 element strings; validate the (01) GTIN or the full HRI string
 }
 
+// Outcome of checking a valid scan against the route manifest
+export type ManifestCheck = 'EXPECTED' | 'UNEXPECTED' | 'ALREADY_SCANNED';
+
+export type SyncStatus = 'PENDING' | 'SYNCED' | 'FAILED';
+
+// Queued upload, keyed by the entity id so re-sending is idempotent
+export interface OutboxItem {
+  id: string;
+  kind: 'RECORD' | 'ROUTE';
+  payload: ScannedRecord | Route;
+  status: 'PENDING' | 'FAILED';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  revision?: string; // New on every enqueue, so a payload queued during an upload is not taken as sent
+}
+
+export interface SyncSettings {
+  endpoint: string; // Empty = uploads disabled (records stay queued)
+  batchSize: number;
+}
+
+// Which earlier scans count when checking for a duplicate
+export type DuplicateScope = 'ROUTE' | 'DAY' | 'WINDOW' | 'GLOBAL';
+
+export interface DuplicateSettings {
+  scope: DuplicateScope;
+  windowMinutes: number; // Only used by WINDOW scope
+}
+
+// Multi-read confirmation before a live read reaches onScan
+// FRAMES: N identical reads; POSITIONS: N identical reads from different scanline positions
+export type ConsensusMode = 'OFF' | 'FRAMES' | 'POSITIONS';
+
+export interface ConsensusSettings {
+  mode: ConsensusMode;
+  requiredReads: number;
+  windowMs: number; // All counted reads must fall within this window
+}
+
+// Live decoding engine: AUTO picks the native BarcodeDetector when it handles the profile's formats
+export type DecoderBackendId = 'AUTO' | 'NATIVE' | 'ZXING';
+
+// Camera resolution tried by the Scanner, highest first
+export type ResolutionStep = 'FHD' | 'HD' | 'SD';
+
+// What happened to a scan, as far as operator feedback is concerned
+export type ScanOutcome = 'NEW' | 'COUNT' | 'DUPLICATE' | 'WRONG_LENGTH' | 'NOT_ON_MANIFEST' | 'INVALID';
+
+export type SoundId = 'DING_DONG' | 'BLIP' | 'BEEP_BEEP' | 'BUZZ' | 'TRIPLE_BEEP' | 'NONE';
+
+export type VibrationId = 'NONE' | 'SHORT' | 'DOUBLE' | 'LONG';
+
+// MESSAGE speaks the on-screen message, LAST_4 reads the code's last four digits
+export type SpeechMode = 'NONE' | 'MESSAGE' | 'LAST_4';
+
+export interface OutcomeFeedback {
+  sound: SoundId;
+  vibration: VibrationId;
+  speech: SpeechMode;
+}
+
+export interface FeedbackProfile {
+  id: string;
+  name: MessageKey;
+  outcomes: Record<ScanOutcome, OutcomeFeedback>;
+}
+
+// Tunables edited on the settings screen
+export interface AppSettings {
+  feedbackLockMs: number;             // Scanning pauses this long after each result
+  sameCodeThrottleMs: number;         // Identical reads within this window are ignored (hardware bounce)
+  autoZoom: number;                   // Applied on camera start when supported (1 = no zoom)
+  rotateRoi: boolean;                 // Live crop turned 90° first, for codes held along the portrait guide box
+  resolutionLadder: ResolutionStep[]; // Tried in order until the camera accepts one
+  ttsRate: number;
+  feedbackProfileId: string; // Preset the outcomes came from, or 'CUSTOM' once edited
+  feedbackOutcomes: Record<ScanOutcome, OutcomeFeedback>;
+  feedbackVolume: number;    // Multiplier on the built-in tone levels (1 = 100%)
+  enforceCheckDigit: boolean;         // false: profiles' check digits are not verified
+  decoderBackend: DecoderBackendId;   // Live decoder; AUTO prefers the browser's BarcodeDetector
+  consensus: ConsensusSettings;       // Reads needed before a live code is accepted
+  locale: Locale;                     // UI text, spoken messages and date formats
+}
+
+// Manual camera controls remembered per camera deviceId
+export interface CameraControls {
+  torch: boolean;
+  zoom?: number; // Absent: use the auto-zoom setting
+}
+
+// Live decoder counters for one route on one day (summed over every frame)
+export interface DecoderTelemetry {
+  routeId: string | null; // null = scanned outside a route
+  day: string;            // Local date, 'YYYY-MM-DD'
+  frames: number;         // Frames handed to the decoder
+  decodedFrames: number;  // Frames in which a code was found
+  latencyTotalMs: number;
+  activeMs: number;       // Time the loop was running (pauses left out), for frames per second
+}
+
+// UI languages; each has a catalog in locales/
+export type Locale = 'ko' | 'en';
+
+// Key of a UI message; the Korean catalog defines the set
+export type MessageKey = keyof typeof ko;
+
+// Why a read was refused by the validation chain
+export type RejectionReason = 'SYMBOLOGY' | 'GS1' | 'FORMAT' | 'LENGTH' | 'PATTERN' | 'CHECK_DIGIT' | 'DUPLICATE';
+
+export type FeedbackType = 'success' | 'count' | 'warning' | 'error';
+
 export type FeedbackState = {
-  type: 'success' | 'error';
+  type: FeedbackType;
   message: string;
 } | null;